@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-03-24
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -12,14 +12,30 @@
  */
 
 import { logger } from './utils/logger';
-import { saveKeywordSetsToCache, getKeywordSetsFromCache } from './utils/keywordService';
+import { saveKeywordSetsToCache, getKeywordSetsFromCache, isValidKeywordData } from './utils/keywordService';
 import {
   getBlacklistStatus,
   updateBlacklistSettings,
   syncOfficialBlacklist,
   checkDomainInBlacklist,
+  getPublicSuffixWarnings,
+  initPolicyMatcher,
   type BlacklistStatus
 } from './utils/blacklistService';
+import { syncPublicSuffixList } from './utils/publicSuffix';
+import {
+  getRecipeStatus,
+  updateUserRecipes,
+  getRecipesForDomain,
+  saveOfficialRecipes,
+  splitKeywordSource
+} from './utils/recipeService';
+import { rebuildFillContextMenus, handleFillMenuClick, handleFillCommand, fillTabNow } from './utils/manualFillService';
+import { updateTabFillStatus, getTabFillStatus, clearTabFillStatus } from './utils/fillStatusService';
+import { updateTabBadge } from './utils/badgeService';
+import { setupNavigationRelay } from './utils/navigationService';
+import { onProfileStoreChanged, migrateLegacyProfiles } from './utils/profileService';
+import { checkFrameAllowed, claimFrameFields, releaseTabClaims } from './utils/frameCoordinator';
 import { chromeStorageGet, chromeStorageSet, chromeStorageRemove } from './utils/storageUtils';
 
 // 配置日志系统根据环境自动启用
@@ -61,6 +77,16 @@ interface SyncStatus {
 
 export default defineBackground(() => {
   chrome.runtime.onInstalled.addListener(async (details) => {
+    // 旧版本的身份数据只在安装或更新时由后台迁移一次
+    try {
+      await migrateLegacyProfiles();
+    } catch (error) {
+      logger.error('迁移旧版本身份数据失败', error);
+    }
+
+    // 右键菜单需要在安装或更新后重新创建
+    await rebuildFillContextMenus();
+
     let needsInitialSync = false;
     let reason = '';
     if (details.reason === 'install') {
@@ -85,6 +111,13 @@ export default defineBackground(() => {
       } catch (error: any) {
         logger.error(`${reason} 官方黑名单同步失败`, error);
       }
+
+      // 更新公共后缀列表，失败时继续使用随扩展发布的列表
+      try {
+        await syncPublicSuffixList();
+      } catch (error: any) {
+        logger.error(`${reason} 公共后缀列表更新失败`, error);
+      }
       
       logger.info(`${reason} 强制同步完成`);
     }
@@ -101,15 +134,36 @@ export default defineBackground(() => {
     (navigator.connection as any).addEventListener('change', handleNetworkChange);
   }
 
-  chrome.action.onClicked.addListener((tab) => {
-    logger.info('用户点击扩展图标，打开设置页面', { tabId: tab.id });
-    chrome.tabs.create({
-      url: chrome.runtime.getURL('settings.html'),
-    }).then(newTab => {
-      logger.info('设置页面已打开', { newTabId: newTab.id });
-    }).catch(error => {
-      logger.error('打开设置页面失败', error);
-    });
+  // 手动填充：右键菜单和快捷键，身份列表变化后更新“使用身份填充”子菜单
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    handleFillMenuClick(info, tab);
+  });
+  chrome.commands.onCommand.addListener((command) => {
+    handleFillCommand(command);
+  });
+  onProfileStoreChanged(() => {
+    rebuildFillContextMenus();
+  });
+
+  // 预先编译黑名单、白名单规则，名单设置或公共后缀列表变化后自动重新编译
+  initPolicyMatcher();
+
+  // 标签页关闭时清除多框架填充的字段归属记录
+  chrome.tabs.onRemoved.addListener((tabId) => {
+    releaseTabClaims(tabId);
+    clearTabFillStatus(tabId);
+  });
+
+  // 单页应用的同文档导航转发给内容脚本重新填充
+  setupNavigationRelay();
+
+  // 标签页开始加载新页面时清除上一个页面的填充结果、字段归属和图标徽章。
+  // 刷新同一网址后跨域框架的ID会变化，保留旧的字段归属会拒绝新框架的申请
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.status !== 'loading') return;
+    releaseTabClaims(tabId);
+    clearTabFillStatus(tabId);
+    updateTabBadge(tabId, null);
   });
 
   chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
@@ -274,6 +328,118 @@ export default defineBackground(() => {
       return true;
     }
 
+    // 检查规则是否涉及公共后缀，用于添加规则时提示用户
+    if (request.action === 'getPublicSuffixWarnings') {
+      getPublicSuffixWarnings(request.data?.rules || [])
+        .then(warnings => sendResponse({ success: true, data: warnings }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '检查公共后缀失败'
+        }));
+      return true;
+    }
+
+    // 检查框架是否允许填充，同时检查框架自身和所在页面的网址，所在页面优先使用标签页的完整网址
+    if (request.action === 'checkFrameAllowed') {
+      checkFrameAllowed(request.data?.url || '', sender.tab?.url || request.data?.topDomain || '')
+        .then(result => sendResponse({ success: true, data: result }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '检查框架填充许可失败'
+        }));
+      return true;
+    }
+
+    // 为框架申请字段类型，同一标签页中每种字段类型只交给一个框架填充
+    if (request.action === 'claimFrameFields') {
+      const candidates = request.data?.candidates || {};
+      if (!sender.tab?.id) {
+        sendResponse({ success: true, data: Object.keys(candidates) });
+        return;
+      }
+      const pageUrl = sender.tab.url || request.data?.topDomain || '';
+      claimFrameFields(sender.tab.id, pageUrl, sender.frameId ?? 0, candidates)
+        .then(granted => sendResponse({ success: true, data: granted }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '申请字段归属失败'
+        }));
+      return true;
+    }
+
+    // 记录内容脚本上报的填充结果
+    if (request.action === 'reportFillStatus') {
+      const tabId = sender.tab?.id;
+      if (!tabId) {
+        sendResponse({ success: true });
+        return;
+      }
+      updateTabFillStatus(tabId, sender.frameId ?? 0, request.data)
+        .then(() => getTabFillStatus(tabId))
+        .then(report => updateTabBadge(tabId, report))
+        .then(() => sendResponse({ success: true }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '记录填充结果失败'
+        }));
+      return true;
+    }
+
+    // 获取标签页最近一次填充结果
+    if (request.action === 'getTabFillStatus') {
+      getTabFillStatus(request.data?.tabId)
+        .then(report => sendResponse({ success: true, data: report }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '获取填充结果失败'
+        }));
+      return true;
+    }
+
+    // 立即填充指定标签页
+    if (request.action === 'fillTabNow') {
+      fillTabNow(request.data?.tabId, request.data?.profileId)
+        .then(() => sendResponse({ success: true }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '填充失败'
+        }));
+      return true;
+    }
+
+    // 获取站点规则状态
+    if (request.action === 'getRecipeStatus') {
+      getRecipeStatus()
+        .then(status => sendResponse({ success: true, data: status }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '获取站点规则失败'
+        }));
+      return true;
+    }
+
+    // 更新用户站点规则
+    if (request.action === 'updateUserRecipes') {
+      updateUserRecipes(request.data)
+        .then(() => sendResponse({ success: true }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '更新站点规则失败'
+        }));
+      return true;
+    }
+
+    // 获取适用于指定域名的站点规则
+    if (request.action === 'getRecipesForDomain') {
+      getRecipesForDomain(request.data?.domain || '')
+        .then(recipes => sendResponse({ success: true, data: recipes }))
+        .catch(error => sendResponse({
+          success: false,
+          error: error.message || '获取站点规则失败'
+        }));
+      return true;
+    }
+
     logger.warn('收到未知的消息 action', { request });
   });
 });
@@ -379,6 +545,13 @@ function setupSyncInterval(interval: number): void {
     } catch (error: any) {
       logger.error('定时器自动同步过程中发生错误', error);
     }
+
+    // 公共后缀列表每周更新一次，未到更新时间时直接跳过；与上面的同步互不影响，失败时继续使用现有列表
+    try {
+      await syncPublicSuffixList();
+    } catch (error: any) {
+      logger.error('定时器公共后缀列表更新失败', error);
+    }
   }, effectiveInterval) as unknown as number;
 
   logger.info('已设置新的关键字自动同步间隔', {
@@ -743,33 +916,37 @@ async function syncKeywordsData(forceSync: boolean = false): Promise<{success: b
       }
 
       // 解析 JSON 数据
-      let jsonData: Record<string, string[]>;
+      let sourceData: Record<string, any>;
       try {
-        jsonData = await response.json();
+        sourceData = await response.json();
       } catch (parseError: any) {
         logger.error('解析关键字 JSON 数据失败', { error: parseError.message, url: keywordsUrl });
         throw new Error('无法解析服务器返回的关键字数据');
       }
 
-      // 验证 JSON 数据结构
-      if (!jsonData || typeof jsonData !== 'object' || !Array.isArray(jsonData.name) || !Array.isArray(jsonData.email) || !Array.isArray(jsonData.url)) {
+      // 拆分出随关键字源下发的官方站点规则
+      const { keywordData: jsonData, recipes } = splitKeywordSource(sourceData);
+
+      // 验证 JSON 数据结构，每个键都是一种字段类型，允许 name/email/url 以外的扩展字段
+      if (!isValidKeywordData(jsonData)) {
         logger.error('关键字数据格式不正确', { dataReceived: jsonData ? Object.keys(jsonData) : null }); // 记录收到的 key
         throw new Error('关键字数据格式不正确');
       }
 
       // 保存数据到缓存
       await saveKeywordSetsToCache(jsonData); // saveKeywordSetsToCache 内部有日志
+      if (recipes) {
+        await saveOfficialRecipes(recipes);
+      }
 
       // 更新上次同步时间
       await updateLastSyncTime(); // updateLastSyncTime 内部有日志
 
       logger.info('关键字数据同步并缓存成功', {
         timestamp: Date.now(),
-        dataStats: {
-          name: jsonData.name.length,
-          email: jsonData.email.length,
-          url: jsonData.url.length
-        }
+        dataStats: Object.fromEntries(
+          Object.entries(jsonData).map(([fieldType, keywords]) => [fieldType, keywords.length])
+        )
       });
 
       return { success: true, message: '关键字数据已成功更新', data: jsonData };
@@ -807,8 +984,8 @@ async function fetchLocalKeywords(): Promise<Record<string, string[]>> {
       throw new Error(`获取本地关键字文件失败: ${response.status}`);
     }
 
-    const jsonData = await response.json();
-    if (!jsonData || typeof jsonData !== 'object' || !Array.isArray(jsonData.name)) {
+    const { keywordData: jsonData } = splitKeywordSource(await response.json());
+    if (!isValidKeywordData(jsonData)) {
       throw new Error('无效的本地 JSON 数据格式');
     }
     return jsonData;
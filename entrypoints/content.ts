@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-04-13
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -13,24 +13,149 @@
 
 import { isPasswordFieldFocused } from './utils/cryptoUtils';
 import { logger } from './utils/logger';
-import { getKeywordSets, KeywordSets } from './utils/keywordService';
-import { sendRuntimeMessage, getEncryptedStorageData } from './utils/storageUtils';
+import { getKeywordSets, mergeKeywordSets, KeywordSets } from './utils/keywordService';
+import {
+  getScoringConfig,
+  collectFieldSignals,
+  scoreField,
+  ORIGINAL_AUTOCOMPLETE_ATTR,
+  type ScoringConfig
+} from './utils/fieldScoring';
+import { parseAutocomplete } from './utils/autocompleteParser';
+import { getFillPreferences, getDomainFillMode, rememberDomainFillDecision } from './utils/fillPreferences';
+import { showFillPreview } from './utils/fillPreview';
+import { onPageNavigated } from './utils/navigationService';
+import { createFormWatcher, type FormWatcher } from './utils/formWatcher';
+import { buildDomIndex, type DomIndex } from './utils/domIndex';
+import {
+  getCommentTemplateSettings,
+  getActiveTemplate,
+  isTemplateEnabledForDomain,
+  renderCommentTemplate,
+  formatTemplateDate,
+  COMMENT_FIELD_TYPE,
+  COMMENT_KEYWORDS
+} from './utils/commentTemplates';
+import {
+  getPreferenceFieldValues,
+  getPreferenceKeywords,
+  isChoiceElement,
+  isChoiceFieldType,
+  getChoiceFieldTypes,
+  matchesChoiceOption,
+  getRadioOptionTexts
+} from './utils/formPreferences';
+import { sendRuntimeMessage } from './utils/storageUtils';
+import type { FillMatch, FillStatusReport } from './utils/fillStatusService';
+import {
+  resolveProfileSelection,
+  type UserProfile,
+  getProfileFieldValues,
+  getProfileFieldKeywords,
+  BUILTIN_FIELD_TYPES
+} from './utils/profileService';
+import { queryShadowPiercing, type SiteRecipe } from './utils/recipeService';
+import { detectCommentAdapters, COMMENT_ADAPTERS, RICH_EDITORS } from './utils/commentAdapters';
+import { fillFieldValue, getOverwriteSkipReason, insertEditableText } from './utils/valueSetter';
+import { getHiddenFieldReason } from './utils/fieldVisibility';
+import {
+  getFrameDocument,
+  getTopDomain,
+  isFrameManagedByParent,
+  isFillableElement,
+  isFormField,
+  isEditableHost,
+  getEditableHost,
+  isShadowRootNode
+} from './utils/frameUtils';
+
+/**
+ * @description: 获取字段类型的匹配顺序。内置字段保持 url、email、name 的原有优先级，
+ * 扩展字段类型按关键字源中的顺序排在其后
+ * @function getFieldTypeOrder
+ * @param {KeywordSets} keywordSets 关键字集合
+ * @returns {string[]} 字段类型列表
+ */
+function getFieldTypeOrder(keywordSets: KeywordSets): string[] {
+  const builtinOrder = ['url', 'email', 'name'];
+  const extraTypes = Object.keys(keywordSets).filter(type => !BUILTIN_FIELD_TYPES.includes(type));
+  return [...builtinOrder, ...extraTypes].filter(type => keywordSets[type]);
+}
+
+/**
+ * @description: 填充所需的字段数据
+ * @interface FillFieldData
+ * @property {Record<string, string>} fieldValues - 字段类型到填充值的映射
+ * @property {KeywordSets} keywordSets - 合并了身份自定义字段、表单偏好和评论正文关键字的关键字集合
+ * @property {string[]} fieldTypes - 有填充值的字段类型，按匹配顺序排列
+ */
+interface FillFieldData {
+  fieldValues: Record<string, string>;
+  keywordSets: KeywordSets;
+  fieldTypes: string[];
+}
+
+/**
+ * @description: 按身份生成填充所需的字段数据，填充和懒加载表单检测使用同一份关键字集合
+ * @function getFillFieldData
+ * @param {UserProfile} profile 填充使用的身份
+ * @param {string} domain 当前域名，用于判断是否启用评论模板
+ * @returns {Promise<FillFieldData>} 字段数据
+ */
+async function getFillFieldData(profile: UserProfile, domain: string): Promise<FillFieldData> {
+  // 字段类型由数据驱动：关键字源中的每个键都是一种字段类型，身份自定义字段提供对应的填充值
+  const fieldValues = getProfileFieldValues(profile);
+
+  // 启用评论模板的域名上，评论正文作为 comment 字段类型参与填充，评论框为空时才会填入
+  const templateSettings = await getCommentTemplateSettings();
+  const template = getActiveTemplate(templateSettings);
+  if (template && isTemplateEnabledForDomain(templateSettings, domain)) {
+    fieldValues[COMMENT_FIELD_TYPE] = renderCommentTemplate(template.content, getTemplateVariables(profile));
+  }
+
+  // 身份中启用的复选框和选择偏好同样作为字段类型参与匹配
+  Object.assign(fieldValues, getPreferenceFieldValues(profile.formPreferences));
+
+  const keywordSets = mergeKeywordSets(await getKeywordSets(), {
+    ...getProfileFieldKeywords(profile),
+    ...getPreferenceKeywords(profile.formPreferences),
+    [COMMENT_FIELD_TYPE]: COMMENT_KEYWORDS
+  });
+  const fieldTypes = getFieldTypeOrder(keywordSets).filter(fieldType => fieldValues[fieldType]);
+
+  return { fieldValues, keywordSets, fieldTypes };
+}
 
 /**
  * @description: 启用浏览器的自动完成功能，设置输入框的 autocomplete 属性为 "on"。
+ * 默认保留网页原有的 autocomplete 属性，只有在用户开启覆盖选项后才会修改，
+ * 修改前的原始值保存在 data-easyfill-autocomplete 中，凭据字段始终不会被修改
  * @function handleAutocomplete
- * @returns {void} 无返回值
+ * @param {Element[]} inputElements 页面中的所有输入框
+ * @returns {Promise<void>} 无返回值
  */
-function handleAutocomplete() {
+async function handleAutocomplete(inputElements: Element[]) {
   try {
-    const inputElements = getAllInputElements();
+    const { overrideAutocomplete } = await getFillPreferences();
+    if (!overrideAutocomplete) {
+      logger.info('未开启覆盖 autocomplete 属性，保留网页原有设置');
+      return;
+    }
+
     logger.info(`找到 ${inputElements.length} 个可填充元素（包括 Shadow DOM）`);
     
     // 设置每个输入框的 autocomplete 属性为 "on"，以启用浏览器的自动完成功能
     inputElements.forEach(input => {
-      if (input instanceof HTMLInputElement) {
-        input.setAttribute('autocomplete', 'on');
+      if (input.tagName !== 'INPUT' || input.hasAttribute(ORIGINAL_AUTOCOMPLETE_ATTR)) {
+        return;
+      }
+      const original = input.getAttribute('autocomplete');
+      // 不修改密码、验证码等字段，避免影响密码管理器的识别
+      if ((input as HTMLInputElement).type === 'password' || parseAutocomplete(original).isCredential) {
+        return;
       }
+      input.setAttribute(ORIGINAL_AUTOCOMPLETE_ATTR, original || '');
+      input.setAttribute('autocomplete', 'on');
     });
 
     logger.info('输入框自动完成功能已启用');
@@ -39,59 +164,57 @@ function handleAutocomplete() {
   }
 }
 
+// 站点规则和评论系统适配器属于明确匹配，向协调器上报时使用高于任何关键字得分的分值
+const EXPLICIT_MATCH_SCORE = 100;
+
 /**
- * @description: 获取所有输入元素，包括 Shadow DOM 内部的元素
- * @function getAllInputElements
- * @returns {Element[]} 返回所有找到的输入元素数组
+ * @description: 填充计划中的一项，先收集全部计划，经后台协调后再统一执行
+ * @interface FillPlanEntry
+ * @property {Element} element - 要填充的输入框
+ * @property {string} fieldType - 字段类型
+ * @property {string} value - 要填充的值
+ * @property {number} score - 匹配得分
+ * @property {Record<string, any>} detail - 日志信息
+ * @property {FillMatch} match - 匹配来源，填充后上报给工具栏弹窗
+ * @property {Function} [fill] - 评论系统适配器提供的填充函数，未提供时使用 fillFieldValue
  */
-function getAllInputElements(): Element[] {
-  const elements: Element[] = [];
-  const processedShadowRoots = new WeakSet<ShadowRoot>(); // 避免重复遍历同一个Shadow Root
-  
-  // 递归遍历 Shadow DOM 的函数
-  function traverseShadowDOM(root: Document | ShadowRoot | Element) {
-    // 如果是ShadowRoot且已经处理过，跳过
-    if (root instanceof ShadowRoot && processedShadowRoots.has(root)) {
-      return;
-    }
-    
-    // 标记已处理的ShadowRoot
-    if (root instanceof ShadowRoot) {
-      processedShadowRoots.add(root);
-    }
-    
-    // 获取当前根节点下的所有输入元素
-    const inputs = root.querySelectorAll('input, textarea');
-    elements.push(...Array.from(inputs));
-    
-    // 查找所有具有 Shadow Root 的元素
-    const allElements = root.querySelectorAll('*');
-    allElements.forEach(element => {
-      if ((element as any).shadowRoot) {
-        const shadowRoot = (element as any).shadowRoot as ShadowRoot;
-        if (!processedShadowRoots.has(shadowRoot)) {
-          logger.info('发现 Shadow DOM，正在遍历', { 
-            tagName: element.tagName, 
-            shadowRootMode: shadowRoot.mode 
-          });
-          traverseShadowDOM(shadowRoot);
-        }
-      }
-    });
-  }
-  
-  // 从 document 开始遍历
-  traverseShadowDOM(document);
-  
-  return elements;
+interface FillPlanEntry {
+  element: Element;
+  fieldType: string;
+  value: string;
+  score: number;
+  detail: Record<string, any>;
+  match: FillMatch;
+  fill?: (element: Element, value: string) => boolean;
+}
+
+/**
+ * @description: 填充选项
+ * @interface FillOptions
+ * @property {Document} [scope] - 遍历起点，默认为当前文档；同源框架加载完成后只遍历该框架
+ * @property {boolean} [manual] - 是否由用户通过右键菜单或快捷键手动触发，手动填充不受黑名单和预览模式限制
+ * @property {string} [profileId] - 指定使用的身份ID，未指定时按域名规则选择
+ * @property {Element} [target] - 只填充该输入框，用于右键点击输入框时的手动填充
+ * @property {Element[]} [elements] - 只填充这些输入框，用于懒加载后新出现的评论表单
+ * @property {DomIndex} [index] - 已建立的页面结构索引，未提供时从遍历起点重新建立
+ */
+interface FillOptions {
+  scope?: Document;
+  manual?: boolean;
+  profileId?: string;
+  target?: Element;
+  elements?: Element[];
+  index?: DomIndex;
 }
 
 /**
  * @description: 填充表单信息，使用存储的用户数据填充输入框和文本区域。
  * @function fillInputFields
+ * @param {FillOptions} options 填充选项
  * @returns {Promise<void>} 返回一个 Promise，表示填充操作的完成状态。
  */
-async function fillInputFields() {
+async function fillInputFields(options: FillOptions = {}) {
+  const { scope = document, manual = false, profileId, target, elements, index } = options;
   try {
     // 检查当前焦点元素是否为密码输入框，如果是则跳过填充
     if (isPasswordFieldFocused()) {
@@ -99,193 +222,208 @@ async function fillInputFields() {
       return;
     }
     
-    // 首先检查黑名单
-    const currentDomain = window.location.hostname;
+    // 首先检查黑名单，框架自身和所在页面的网址都需要通过检查，路径规则按完整网址匹配。
+    // 填充同源框架时按该框架的网址检查，about:blank 等没有自身网址的框架沿用当前页面的网址
+    const scopeLocation = scope.location?.protocol.startsWith('http') ? scope.location : window.location;
+    const currentDomain = scopeLocation.hostname;
+    const topDomain = getTopDomain();
     
-    // 向background发送消息检查当前域名是否在黑名单中
-    const response = await sendRuntimeMessage({
-      action: 'checkDomainInBlacklist',
-      domain: currentDomain
-    });
+    // 手动填充是用户的明确操作，不受黑名单和预览模式限制
+    let fillMode: Awaited<ReturnType<typeof getDomainFillMode>> = 'auto';
+    if (!manual) {
+      const response = await sendRuntimeMessage({
+        action: 'checkFrameAllowed',
+        data: { url: scopeLocation.href, topDomain }
+      });
+      
+      if (!response || !response.success || !response.data.allowed) {
+        logger.info(`域名 ${currentDomain} 不允许填充，跳过填充`, response?.data?.reason);
+        reportFillStatus('blocked', { reason: response?.data?.reason, list: response?.data?.list });
+        return;
+      }
+
+      // 用户在预览中选择过忽略的域名不再填充
+      fillMode = await getDomainFillMode(currentDomain);
+      if (fillMode === 'skip') {
+        logger.info(`用户已选择不在 ${currentDomain} 填充，跳过填充`);
+        reportFillStatus('skipped', { reason: '已在填充预览中选择忽略该网站' });
+        return;
+      }
+    }
     
-    if (!response || !response.success || !response.data.allowed) {
-      logger.info(`域名 ${currentDomain} 在黑名单中，跳过填充`);
+    // 如果域名检查通过，根据域名规则解析要使用的身份
+    const { profile, rule } = await resolveProfileSelection(currentDomain, profileId);
+    if (!profile) {
+      logger.warn('未找到可用的填充身份，跳过填充');
+      reportFillStatus('missingProfile', { reason: '未找到可用的填充身份' });
       return;
     }
-    
-    // 如果域名检查通过，获取用户数据
-    const name = await getEncryptedStorageData({ key: 'name', storageType: 'sync' });
-    const email = await getEncryptedStorageData({ key: 'email', storageType: 'sync' });
-    const url = await getEncryptedStorageData({ key: 'url', storageType: 'sync' });
+
+    const { name, email, url } = profile;
+    const profileStatus = {
+      profileName: profile.profileName,
+      profileRule: rule ? rule.pattern : undefined
+    };
     
     // 检查必填项
     if (!name || !email) {
-      logger.warn("缺少必填项：昵称或邮箱，跳过填充");
+      logger.warn(`身份 ${profile.profileName} 缺少必填项：昵称或邮箱，跳过填充`);
+      reportFillStatus('missingProfile', { ...profileStatus, reason: '身份缺少必填项：昵称或邮箱' });
       return;
     }
     
-    logger.info('获取到用户数据，开始填充', { name, email, url });
+    logger.info('获取到用户数据，开始填充', { profileName: profile.profileName, name, email, url });
 
-    const keywordSets = await getKeywordSets();
+    const { fieldValues, keywordSets, fieldTypes } = await getFillFieldData(profile, currentDomain);
     
-    // 使用新的函数获取所有输入元素（包括 Shadow DOM）
-    const inputs = getAllInputElements();
-    let fieldsFound = 0;
-    let foundFieldTypes = new Set<string>(); // 记录已找到的字段类型
+    const scoringConfig = await getScoringConfig();
+    const planStartTime = performance.now();
+    const domIndex = index || buildDomIndex(scope);
+    const roots = domIndex.roots;
+    const handledElements = new Set<Element>();
+
+    // 先应用站点规则，再按已识别的评论系统适配器和富文本编辑器匹配，命中的输入框不再参与关键字匹配
+    // 指定了输入框时只保留这些输入框的计划
+    const scopedElements = elements ? new Set(elements) : null;
+    const inScope = (element: Element) => !scopedElements || scopedElements.has(element);
+    const plan: FillPlanEntry[] = [
+      ...await planSiteRecipes(roots, currentDomain, fieldValues, handledElements),
+      ...planCommentAdapters(roots, fieldValues, handledElements),
+      ...planRichEditors(domIndex.inputs, fieldValues, handledElements)
+    ].filter(entry => inScope(entry.element));
+    
+    // 其余输入框（包括 Shadow DOM 和同源框架）使用通用关键字匹配
+    const inputs = domIndex.inputs
+      .filter(input => !handledElements.has(input))
+      .filter(input => inScope(input))
+      .filter(input => !target || input === target);
     
     inputs.forEach((input) => {
-      const typeAttr = (input.getAttribute("type") || "").toLowerCase();
-      const nameAttr = (input.getAttribute("name") || "").toLowerCase();
-      const idAttr = (input.getAttribute("id") || "").toLowerCase();
-      let valueToSet = ""; // 初始化要设置的值
-      let matchedBy = "";  // 记录匹配方式：id, name 或 type
-      let fieldType = "";  // 记录字段类型
-
-      // 根据关键字集合和属性匹配，确定要填充的值
-      // 检查URL字段
-      if (keywordSets.url.has(nameAttr) || keywordSets.url.has(`#${idAttr}`)) {
-        valueToSet = url;
-        matchedBy = keywordSets.url.has(`#${idAttr}`) ? "id" : "name";
-        fieldType = "url";
-      } else if (typeAttr === "url" && url) {
-        valueToSet = url;
-        matchedBy = "type";
-        fieldType = "url";
-      }
-      
-      // 检查Email字段
-      else if (keywordSets.email.has(nameAttr) || keywordSets.email.has(`#${idAttr}`)) {
-        valueToSet = email;
-        matchedBy = keywordSets.email.has(`#${idAttr}`) ? "id" : "name";
-        fieldType = "email";
-      } else if (typeAttr === "email" && email) {
-        valueToSet = email;
-        matchedBy = "type";
-        fieldType = "email";
-      }
-      
-      // 检查Name字段
-      else if ((keywordSets.name.has(nameAttr) || keywordSets.name.has(`#${idAttr}`)) && name) {
-        valueToSet = name;
-        matchedBy = keywordSets.name.has(`#${idAttr}`) ? "id" : "name";
-        fieldType = "name";
-      }
-
-      // 过滤无关字段
-      if (!valueToSet) return;
+      // 收集输入框的所有识别信号，并为每种字段类型计算置信度
+      const signals = collectFieldSignals(input, domIndex.labelTexts.get(input));
+      const inputFieldTypes = getInputFieldTypes(input, fieldTypes);
+      if (inputFieldTypes.length === 0) return;
+      const result = scoreField(signals, keywordSets, inputFieldTypes, scoringConfig);
 
-      // 输出 JSON 格式日志
+      // 输出 JSON 格式日志，记录命中的信号以解释每次决策
       const logEntry = {
-        name: nameAttr || "",
-        id: idAttr || "",
-        type: typeAttr || "",
-        matchedBy,
-        valueToSet,
+        name: signals.name,
+        id: signals.id,
+        type: signals.type,
+        autocomplete: signals.autocomplete.raw,
+        fieldType: result.fieldType,
+        score: Math.round(result.score * 100) / 100,
+        threshold: scoringConfig.threshold,
+        matchedSignals: result.matchedSignals.map(m => `${m.signal}:${m.value}(+${m.weight})`),
+        scores: result.scores,
         inShadowDOM: isInShadowDOM(input)
       };
 
-      // 执行填充操作
-      logger.info('填充表单字段', JSON.stringify(logEntry));
-      (input as HTMLInputElement).value = valueToSet;
-      
-      // 触发 input 事件，通知表单值已更改
-      const inputEvent = new Event('input', { bubbles: true });
-      input.dispatchEvent(inputEvent);
-      
-      // 触发 change 事件
-      const changeEvent = new Event('change', { bubbles: true });
-      input.dispatchEvent(changeEvent);
-      
-      fieldsFound++;
-      foundFieldTypes.add(fieldType);
-    });
+      // 手动填充右键点击的输入框时，得分低于阈值也使用得分最高的字段类型
+      if (!result.fieldType && target && !result.skipReason) {
+        const [bestFieldType, bestScore] = Object.entries(result.scores)
+          .sort(([, a], [, b]) => b - a)[0] || [null, 0];
+        if (bestFieldType && bestScore > 0) {
+          result.fieldType = bestFieldType;
+          logEntry.fieldType = bestFieldType;
+        }
+      }
 
-    logger.info(`表单填充完成，成功填充 ${fieldsFound} 个字段`);
+      // 过滤无关字段
+      if (!result.fieldType) {
+        if (result.skipReason) {
+          logger.info(`根据 ${result.skipReason}，跳过填充`, JSON.stringify(logEntry));
+        } else if (result.score > 0) {
+          logger.info('字段得分低于阈值，跳过填充', JSON.stringify(logEntry));
+        }
+        return;
+      }
 
-    // 检查是否有未找到的字段类型
-    const allFieldTypes = ['name', 'email', 'url'];
-    const missingFieldTypes = allFieldTypes.filter(type => !foundFieldTypes.has(type));
+      // 单选框按分组识别，只选中与偏好选项一致的那一个
+      if (input.tagName === 'INPUT' && (input as HTMLInputElement).type === 'radio'
+        && !matchesChoiceOption(getRadioOptionTexts(input as HTMLInputElement), fieldValues[result.fieldType])) {
+        return;
+      }
 
-    // 如果有未找到的字段，尝试使用更通用的选择器
-    if (missingFieldTypes.length > 0) {
-      logger.info(`通过关键字匹配未能找到所有字段类型: ${missingFieldTypes.join(', ')}，尝试使用通用选择器`);
-      let additionalFields = 0;
-      
-      // 为每种未找到的字段类型尝试通用选择器
-      for (const fieldType of missingFieldTypes) {
-        let valueToFill = '';
-        
-        // 设置要填充的值
-        switch (fieldType) {
-          case 'name':
-            valueToFill = name;
-            break;
-          case 'email':
-            valueToFill = email;
-            break;
-          case 'url':
-            valueToFill = url;
-            break;
-        }
-        
-        // 从关键字数据源动态生成选择器并在所有根节点中查找
-        const keywordSet = keywordSets[fieldType as keyof KeywordSets];
-        if (keywordSet) {
-          // 为每个关键字生成 placeholder 选择器
-          keywordSet.forEach(keyword => {
-            // 跳过以 # 开头的关键字（这些已经在主匹配逻辑中处理过了）
-            if (!keyword.startsWith('#')) {
-              const selector = `input[placeholder*="${keyword}"]`;
-              const element = findElementInAllRoots(selector);
-              if (element && element instanceof HTMLInputElement && !element.value) {
-                element.value = valueToFill;
-                element.dispatchEvent(new Event('input', { bubbles: true }));
-                element.dispatchEvent(new Event('change', { bubbles: true }));
-                additionalFields++;
-                logger.info(`使用通用选择器填充字段: ${selector}`, { 
-                  fieldType, 
-                  value: valueToFill,
-                  inShadowDOM: isInShadowDOM(element)
-                });
-                return; // 找到一个就跳出，避免重复填充
-              }
-            }
-          });
-          
-          // 添加 type 选择器（如果适用）
-          if (fieldType === 'email') {
-            const element = findElementInAllRoots('input[type="email"]');
-            if (element && element instanceof HTMLInputElement && !element.value) {
-              element.value = valueToFill;
-              element.dispatchEvent(new Event('input', { bubbles: true }));
-              element.dispatchEvent(new Event('change', { bubbles: true }));
-              additionalFields++;
-              logger.info(`使用类型选择器填充字段: input[type="email"]`, { 
-                fieldType, 
-                value: valueToFill,
-                inShadowDOM: isInShadowDOM(element)
-              });
-            }
-          } else if (fieldType === 'url') {
-            const element = findElementInAllRoots('input[type="url"]');
-            if (element && element instanceof HTMLInputElement && !element.value) {
-              element.value = valueToFill;
-              element.dispatchEvent(new Event('input', { bubbles: true }));
-              element.dispatchEvent(new Event('change', { bubbles: true }));
-              additionalFields++;
-              logger.info(`使用类型选择器填充字段: input[type="url"]`, { 
-                fieldType, 
-                value: valueToFill,
-                inShadowDOM: isInShadowDOM(element)
-              });
-            }
-          }
+      plan.push({
+        element: input,
+        fieldType: result.fieldType,
+        value: fieldValues[result.fieldType],
+        score: result.score,
+        detail: logEntry,
+        match: {
+          fieldType: result.fieldType,
+          source: 'keyword',
+          rule: logEntry.matchedSignals.join(', ')
         }
+      });
+    });
+
+    logger.info('填充计划已生成', {
+      inputs: inputs.length,
+      entries: plan.length,
+      duration: `${Math.round(performance.now() - planStartTime)}ms`
+    });
+
+    // 只填充右键点击的输入框时，用户已明确指定目标，不再检查覆盖保护和多框架协调
+    if (target) {
+      const targetPlan = plan.filter(entry => entry.element === target);
+      if (targetPlan.length === 0) {
+        logger.info('无法识别右键点击的输入框对应的字段类型，跳过填充');
+        return;
       }
-      
-      if (additionalFields > 0) {
-        logger.info(`使用通用选择器额外找到并填充了 ${additionalFields} 个字段`);
+      const filledEntries = executeFillPlan(targetPlan, true);
+      reportFillStatus('filled', { ...profileStatus, ...summarizeFilledEntries(filledEntries) });
+      return;
+    }
+
+    if (plan.length === 0) {
+      // 同源框架加载后只遍历该框架，新出现的输入框也只是页面的一部分，都不代表整个页面没有输入框
+      if (scope === document && !elements && pageFilledEntries.size === 0) {
+        reportFillStatus('noForm', { ...profileStatus });
       }
+      return;
+    }
+
+    // 跳过隐藏和蜜罐输入框，不覆盖用户输入的内容和正在编辑的输入框
+    const writablePlan = plan.filter(entry => isWritable(entry));
+
+    // 预览模式下先高亮待填充的输入框，由用户确认后再申请字段类型并填充，
+    // 尚未确认的预览项不占用字段类型，其他框架仍可以填充
+    if (fillMode === 'preview') {
+      // 逐项填充时累计已填充的字段，上报的是本次预览的全部结果
+      const acceptedEntries: FillPlanEntry[] = [];
+      reportFillStatus('preview', { ...profileStatus });
+      showFillPreview(writablePlan, {
+        onAccept: (entries, acceptAll) => {
+          fillGrantedEntries(entries, topDomain)
+            .then(filledEntries => {
+              acceptedEntries.push(...filledEntries);
+              reportFillStatus('filled', { ...profileStatus, ...summarizeFilledEntries(acceptedEntries) });
+            })
+            .catch(error => logger.error('填充预览中确认的字段时出错', error));
+          if (acceptAll) {
+            rememberDomainFillDecision(currentDomain, 'accept')
+              .catch(error => logger.error('保存域名填充选择失败', error));
+          }
+        },
+        onDismiss: () => {
+          logger.info(`用户忽略了 ${currentDomain} 的填充预览`);
+          rememberDomainFillDecision(currentDomain, 'dismiss')
+            .catch(error => logger.error('保存域名填充选择失败', error));
+        }
+      });
+      return;
+    }
+
+    const filledEntries = await fillGrantedEntries(writablePlan, topDomain);
+    const foundFieldTypes = new Set(filledEntries.map(entry => entry.fieldType));
+    reportFillStatus('filled', { ...profileStatus, ...summarizeFilledEntries(filledEntries) });
+
+    // 检查是否有未找到的字段类型
+    const missingFieldTypes = fieldTypes.filter(type => !foundFieldTypes.has(type));
+    if (missingFieldTypes.length > 0) {
+      logger.info(`未找到以下字段类型的输入框: ${missingFieldTypes.join(', ')}`);
     }
   } catch (error) {
     logger.error('填充表单数据时出错', error);
@@ -293,36 +431,351 @@ async function fillInputFields() {
 }
 
 /**
- * @description: 在所有根节点（包括 Shadow DOM）中查找元素
- * @function findElementInAllRoots
- * @param {string} selector CSS 选择器
- * @returns {Element | null} 找到的第一个元素或 null
+ * @description: 筛选输入框可以匹配的字段类型。复选框、单选框和下拉选择框只匹配表单选项偏好，
+ * 文本输入框不匹配选项偏好；评论正文只填入 textarea 和可编辑区域
+ * @function getInputFieldTypes
+ * @param {Element} input 输入框
+ * @param {string[]} fieldTypes 有填充值的字段类型
+ * @returns {string[]} 可以匹配的字段类型
+ */
+function getInputFieldTypes(input: Element, fieldTypes: string[]): string[] {
+  if (isChoiceElement(input)) {
+    return getChoiceFieldTypes(input, fieldTypes);
+  }
+
+  const textFieldTypes = fieldTypes.filter(fieldType => !isChoiceFieldType(fieldType));
+  return input.tagName === 'TEXTAREA' || isEditableHost(input)
+    ? textFieldTypes
+    : textFieldTypes.filter(fieldType => fieldType !== COMMENT_FIELD_TYPE);
+}
+
+/**
+ * @description: 生成评论模板的变量值。框架中的评论系统（如 Disqus）使用所在页面的域名
+ * @function getTemplateVariables
+ * @param {UserProfile | null} profile 使用的身份
+ * @returns {Record<string, string>} 变量值
  */
-function findElementInAllRoots(selector: string): Element | null {
-  // 递归查找函数
-  function searchInRoot(root: Document | ShadowRoot | Element): Element | null {
-    // 在当前根节点中查找
-    const element = root.querySelector(selector);
-    if (element) {
-      return element;
+function getTemplateVariables(profile: UserProfile | null): Record<string, string> {
+  return {
+    name: profile?.name || '',
+    url: profile?.url || '',
+    date: formatTemplateDate(),
+    pageTitle: document.title,
+    domain: getTopDomain() || window.location.hostname
+  };
+}
+
+/**
+ * @description: 在右键点击的评论框中插入当前评论模板，插入到光标处并保留已输入的内容。
+ * 手动插入不受模板启用域名的限制
+ * @function insertCommentTemplate
+ * @param {Element} target 评论框
+ * @returns {Promise<void>} 无返回值
+ */
+async function insertCommentTemplate(target: Element) {
+  try {
+    if (!isFormField(target)) {
+      logger.warn('右键点击的元素不是输入框，无法插入评论模板', { tagName: target.tagName });
+      return;
     }
-    
-    // 在 Shadow DOM 中递归查找
-    const allElements = root.querySelectorAll('*');
-    for (const el of allElements) {
-      const anyEl = el as any;
-      if (anyEl.shadowRoot) {
-        const found = searchInRoot(anyEl.shadowRoot as ShadowRoot);
-        if (found) {
-          return found;
-        }
-      }
+
+    const template = getActiveTemplate(await getCommentTemplateSettings());
+    if (!template) {
+      logger.warn('尚未添加评论模板，请先在设置页面中添加');
+      return;
     }
-    
-    return null;
+
+    const { profile } = await resolveProfileSelection(window.location.hostname);
+    const text = renderCommentTemplate(template.content, getTemplateVariables(profile));
+    logger.info('插入评论模板', { templateName: template.name });
+
+    // 可编辑区域通过编辑命令插入，编辑器会自行维护光标和内部状态
+    if (isEditableHost(target)) {
+      insertEditableText(target, text);
+      return;
+    }
+    if (!isFillableElement(target)) return;
+
+    const { value } = target;
+    const start = target.selectionStart ?? value.length;
+    const end = target.selectionEnd ?? value.length;
+
+    fillFieldValue(target, value.slice(0, start) + text + value.slice(end));
+  } catch (error) {
+    logger.error('插入评论模板时出错', error);
   }
-  
-  return searchInRoot(document);
+}
+
+/**
+ * @description: 检查填充计划中的输入框是否允许写入，不允许时记录原因。
+ * 隐藏、禁用和蜜罐输入框不填充，也不覆盖用户输入的内容
+ * @function isWritable
+ * @param {FillPlanEntry} entry 填充计划项
+ * @returns {boolean} 是否允许写入
+ */
+function isWritable(entry: FillPlanEntry): boolean {
+  const skipReason = getHiddenFieldReason(entry.element) || getOverwriteSkipReason(entry.element);
+  if (skipReason) {
+    logger.info(`${skipReason}，跳过填充`, JSON.stringify(entry.detail));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * @description: 执行填充计划，逐项写入输入框
+ * @function executeFillPlan
+ * @param {FillPlanEntry[]} plan 填充计划
+ * @param {boolean} force 是否跳过覆盖保护，仅用于用户明确指定输入框的手动填充
+ * @returns {FillPlanEntry[]} 成功填充的计划项
+ */
+function executeFillPlan(plan: FillPlanEntry[], force: boolean = false): FillPlanEntry[] {
+  const filledEntries: FillPlanEntry[] = [];
+
+  plan.forEach((entry) => {
+    const { element, value, detail, fill = fillFieldValue } = entry;
+    // 预览确认前用户可能已经开始输入，填充前再检查一次
+    if (!force && !isWritable(entry)) return;
+
+    // 执行填充操作
+    logger.info('填充表单字段', JSON.stringify({ ...detail, valueToSet: value }));
+    if (!fill(element, value)) return;
+
+    filledEntries.push(entry);
+  });
+
+  logger.info(`表单填充完成，成功填充 ${filledEntries.length} 个字段`);
+  return filledEntries;
+}
+
+// 当前页面已填充的输入框，多个填充阶段和新出现的表单累计计算，页面变化时清空
+const pageFilledEntries = new Map<Element, FillPlanEntry>();
+
+/**
+ * @description: 记录已填充的计划项，并汇总当前页面全部已填充的字段数量和匹配来源
+ * @function summarizeFilledEntries
+ * @param {FillPlanEntry[]} entries 本次填充的计划项
+ * @returns {Pick<FillStatusReport, 'fieldsFilled' | 'matches'>} 字段数量和匹配来源
+ */
+function summarizeFilledEntries(entries: FillPlanEntry[]): Pick<FillStatusReport, 'fieldsFilled' | 'matches'> {
+  entries.forEach(entry => pageFilledEntries.set(entry.element, entry));
+  const allEntries = Array.from(pageFilledEntries.values());
+  return {
+    fieldsFilled: allEntries.length,
+    matches: allEntries.map(entry => entry.match)
+  };
+}
+
+/**
+ * @description: 向后台上报当前框架最近一次的填充结果，供工具栏弹窗展示。
+ * 上报失败不影响填充，只记录日志
+ * @function reportFillStatus
+ * @param {FillStatusReport['state']} state 填充结果状态
+ * @param {Partial<FillStatusReport>} details 其余结果信息
+ * @returns {void} 无返回值
+ */
+function reportFillStatus(state: FillStatusReport['state'], details: Partial<FillStatusReport> = {}) {
+  const report: FillStatusReport = {
+    domain: window.location.hostname,
+    fieldsFilled: 0,
+    matches: [],
+    ...details,
+    state,
+    timestamp: Date.now()
+  };
+  sendRuntimeMessage({ action: 'reportFillStatus', data: report })
+    .catch(error => logger.warn('上报填充结果失败', error));
+}
+
+/**
+ * @description: 向后台协调器申请填充计划中的字段类型，协调失败时允许填充全部字段
+ * @function claimFieldTypes
+ * @param {FillPlanEntry[]} plan 填充计划
+ * @param {string} topDomain 所在页面的域名
+ * @returns {Promise<Set<string>>} 当前框架获准填充的字段类型
+ */
+async function claimFieldTypes(plan: FillPlanEntry[], topDomain: string): Promise<Set<string>> {
+  const candidates: Record<string, number> = {};
+  plan.forEach(({ fieldType, score }) => {
+    candidates[fieldType] = Math.max(candidates[fieldType] || 0, score);
+  });
+
+  if (Object.keys(candidates).length === 0) {
+    return new Set();
+  }
+
+  const response = await sendRuntimeMessage({
+    action: 'claimFrameFields',
+    data: { candidates, topDomain }
+  });
+
+  if (!response || !response.success) {
+    logger.warn('多框架填充协调失败，填充当前框架的全部字段', response?.error);
+    return new Set(Object.keys(candidates));
+  }
+  return new Set<string>(response.data);
+}
+
+/**
+ * @description: 向后台协调器申请字段类型后填充获准的计划项，同一标签页中每种字段类型只由一个框架填充
+ * @function fillGrantedEntries
+ * @param {FillPlanEntry[]} plan 填充计划
+ * @param {string} topDomain 所在页面的域名
+ * @returns {Promise<FillPlanEntry[]>} 成功填充的计划项
+ */
+async function fillGrantedEntries(plan: FillPlanEntry[], topDomain: string): Promise<FillPlanEntry[]> {
+  const grantedFieldTypes = await claimFieldTypes(plan, topDomain);
+
+  const grantedPlan = plan.filter(entry => {
+    if (!grantedFieldTypes.has(entry.fieldType)) {
+      logger.info('字段类型已由其他框架填充，跳过填充', JSON.stringify(entry.detail));
+      return false;
+    }
+    return true;
+  });
+
+  return executeFillPlan(grantedPlan);
+}
+
+/**
+ * @description: 按当前域名的站点规则生成填充计划，规则中的选择器直接定位输入框
+ * @function planSiteRecipes
+ * @param {Array<Document | ShadowRoot>} roots 页面中的所有查询根节点
+ * @param {string} domain 当前域名
+ * @param {Record<string, string>} fieldValues 字段类型到填充值的映射
+ * @param {Set<Element>} handledElements 已处理的元素，规则命中的元素会加入其中
+ * @returns {Promise<FillPlanEntry[]>} 填充计划
+ */
+async function planSiteRecipes(
+  roots: Array<Document | ShadowRoot>,
+  domain: string,
+  fieldValues: Record<string, string>,
+  handledElements: Set<Element>
+): Promise<FillPlanEntry[]> {
+  const plan: FillPlanEntry[] = [];
+
+  const response = await sendRuntimeMessage({
+    action: 'getRecipesForDomain',
+    data: { domain }
+  });
+
+  if (!response || !response.success) {
+    logger.warn('获取站点规则失败，仅使用关键字匹配', response?.error);
+    return plan;
+  }
+
+  // 选择器从 document 开始匹配，同源框架的文档同样作为起点
+  const documents = roots.filter((root): root is Document => root.nodeType === Node.DOCUMENT_NODE);
+  const recipes: SiteRecipe[] = response.data || [];
+  recipes.forEach(recipe => {
+    recipe.fields.forEach(({ selector, fieldType }) => {
+      documents.flatMap(doc => queryShadowPiercing(selector, doc)).forEach(element => {
+        // 同一元素只使用第一条命中的规则，用户规则优先于官方规则
+        if (handledElements.has(element)) return;
+        if (!isFormField(element)) return;
+        if (element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'password') return;
+
+        handledElements.add(element);
+        const value = fieldValues[fieldType];
+        if (!value) {
+          logger.info('站点规则命中的字段类型没有填充值，跳过填充', { domain: recipe.domain, selector, fieldType });
+          return;
+        }
+
+        plan.push({
+          element,
+          fieldType,
+          value,
+          score: EXPLICIT_MATCH_SCORE,
+          detail: { source: 'recipe', domain: recipe.domain, selector, fieldType },
+          match: { fieldType, source: 'recipe', rule: `${recipe.domain}: ${selector}` }
+        });
+      });
+    });
+  });
+
+  return plan;
+}
+
+/**
+ * @description: 按已识别的评论系统适配器生成填充计划，适配器按组件的 DOM 结构定位输入框
+ * @function planCommentAdapters
+ * @param {Array<Document | ShadowRoot>} roots 页面中的所有查询根节点
+ * @param {Record<string, string>} fieldValues 字段类型到填充值的映射
+ * @param {Set<Element>} handledElements 已处理的元素，适配器命中的元素会加入其中
+ * @returns {FillPlanEntry[]} 填充计划
+ */
+function planCommentAdapters(
+  roots: Array<Document | ShadowRoot>,
+  fieldValues: Record<string, string>,
+  handledElements: Set<Element>
+): FillPlanEntry[] {
+  const plan: FillPlanEntry[] = [];
+
+  detectCommentAdapters(roots).forEach(adapter => {
+    logger.info(`识别到评论系统 ${adapter.name}`);
+    Object.entries(adapter.fields).forEach(([fieldType, selector]) => {
+      const value = fieldValues[fieldType];
+      if (!value) return;
+
+      roots.forEach(root => {
+        root.querySelectorAll(selector).forEach(element => {
+          if (handledElements.has(element)) return;
+          handledElements.add(element);
+
+          plan.push({
+            element,
+            fieldType,
+            value,
+            score: EXPLICIT_MATCH_SCORE,
+            detail: { source: 'adapter', adapter: adapter.name, selector, fieldType },
+            match: { fieldType, source: 'adapter', rule: adapter.name },
+            fill: adapter.fill
+          });
+        });
+      });
+    });
+  });
+
+  return plan;
+}
+
+/**
+ * @description: 按富文本编辑器的编辑区域生成评论正文的填充计划。
+ * 编辑区域通常只有 class 可供识别，关键字匹配的得分不足以命中
+ * @function planRichEditors
+ * @param {Element[]} inputs 页面中的所有输入框和可编辑区域
+ * @param {Record<string, string>} fieldValues 字段类型到填充值的映射
+ * @param {Set<Element>} handledElements 已处理的元素，命中的编辑区域会加入其中
+ * @returns {FillPlanEntry[]} 填充计划
+ */
+function planRichEditors(
+  inputs: Element[],
+  fieldValues: Record<string, string>,
+  handledElements: Set<Element>
+): FillPlanEntry[] {
+  const plan: FillPlanEntry[] = [];
+  const value = fieldValues[COMMENT_FIELD_TYPE];
+  if (!value) return plan;
+
+  inputs.forEach(input => {
+    if (handledElements.has(input) || !isEditableHost(input)) return;
+    const editor = RICH_EDITORS.find(({ selector }) => input.matches(selector));
+    if (!editor) return;
+
+    handledElements.add(input);
+    logger.info(`识别到富文本编辑器 ${editor.name}`);
+    plan.push({
+      element: input,
+      fieldType: COMMENT_FIELD_TYPE,
+      value,
+      score: EXPLICIT_MATCH_SCORE,
+      detail: { source: 'editor', editor: editor.name, selector: editor.selector, fieldType: COMMENT_FIELD_TYPE },
+      match: { fieldType: COMMENT_FIELD_TYPE, source: 'adapter', rule: editor.name }
+    });
+  });
+
+  return plan;
 }
 
 /**
@@ -334,7 +787,7 @@ function findElementInAllRoots(selector: string): Element | null {
 function isInShadowDOM(element: Element): boolean {
   let parent: Node | null = element.parentNode;
   while (parent) {
-    if (parent instanceof ShadowRoot) {
+    if (isShadowRootNode(parent)) {
       return true;
     }
     parent = parent.parentNode;
@@ -348,21 +801,16 @@ function isInShadowDOM(element: Element): boolean {
 interface FillState {
   isFirstFillCompleted: boolean;
   isSecondFillCompleted: boolean;
-  isAutoFillStopped: boolean;
-  lastPageUrl: string;
-  lastPageTitle: string;
-  pageChangeDetected: boolean;
 }
 
 let fillState: FillState = {
   isFirstFillCompleted: false,
-  isSecondFillCompleted: false,
-  isAutoFillStopped: false,
-  lastPageUrl: window.location.href,
-  lastPageTitle: document.title,
-  pageChangeDetected: false
+  isSecondFillCompleted: false
 };
 
+// 第二次填充后负责发现懒加载表单的检测器
+let formWatcher: FormWatcher | null = null;
+
 /**
  * @description: 重置填充状态，用于页面变化时重新开始填充策略
  * @function resetFillState
@@ -371,52 +819,29 @@ let fillState: FillState = {
 function resetFillState() {
   fillState = {
     isFirstFillCompleted: false,
-    isSecondFillCompleted: false,
-    isAutoFillStopped: false,
-    lastPageUrl: window.location.href,
-    lastPageTitle: document.title,
-    pageChangeDetected: false
+    isSecondFillCompleted: false
   };
+  formWatcher?.stop();
+  pageFilledEntries.clear();
   logger.info('填充状态已重置，准备重新执行完整填充策略');
 }
 
-/**
- * @description: 检测页面内容是否发生变化（PJAX/AJAX/Astro等）
- * @function detectPageChange
- * @returns {boolean} 如果检测到页面变化返回 true
- */
-function detectPageChange(): boolean {
-  const currentUrl = window.location.href;
-  const currentTitle = document.title;
-  
-  // 检查 URL 或标题是否发生变化
-  if (currentUrl !== fillState.lastPageUrl || currentTitle !== fillState.lastPageTitle) {
-    logger.info('检测到页面内容变化', {
-      oldUrl: fillState.lastPageUrl,
-      newUrl: currentUrl,
-      oldTitle: fillState.lastPageTitle,
-      newTitle: currentTitle
-    });
-    
-    fillState.lastPageUrl = currentUrl;
-    fillState.lastPageTitle = currentTitle;
-    return true;
-  }
-  
-  return false;
-}
-
 /**
  * @description: 执行填充操作
  * @function performFill
  * @param {string} stage 填充阶段标识
+ * @param {FillOptions} options 填充选项
  * @returns {void} 无返回值
  */
-async function performFill(stage: string) {
+async function performFill(stage: string, options: FillOptions = {}) {
   try {
     logger.info(`执行${stage}填充`);
-    handleAutocomplete();
-    await fillInputFields();
+    const startTime = performance.now();
+    // 同一填充阶段只遍历一次页面，autocomplete 处理和字段识别共用索引
+    const index = buildDomIndex(options.scope);
+    await handleAutocomplete(index.inputs);
+    await fillInputFields({ ...options, index });
+    logger.info(`${stage}填充结束，耗时 ${Math.round(performance.now() - startTime)}ms`);
   } catch (error) {
     logger.error(`${stage}填充时发生错误`, error);
   }
@@ -449,8 +874,8 @@ async function executeSecondFill() {
   
   await performFill('第二次');
   fillState.isSecondFillCompleted = true;
-  fillState.isAutoFillStopped = true;
-  logger.info('第二次填充已完成，自动填充已停止');
+  logger.info('第二次填充已完成，开始检测懒加载的表单');
+  await startFormWatcher();
 }
 
 /**
@@ -477,107 +902,141 @@ async function handlePageChange() {
  * @returns {void} 无返回值
  */
 function setupAdvancedPageChangeDetection() {
-  // 监听 popstate 事件（浏览器前进后退）
-  window.addEventListener('popstate', () => {
-    logger.info('检测到 popstate 事件');
+  // 单页应用切换页面由导航服务统一检测，后台 webNavigation 和 Navigation API 的事件去抖合并
+  onPageNavigated(() => {
     handlePageChange();
   });
+}
 
-  // 监听 pushstate 和 replacestate（PJAX/AJAX导航）
-  const originalPushState = history.pushState;
-  const originalReplaceState = history.replaceState;
-
-  history.pushState = function(...args) {
-    originalPushState.apply(history, args);
-    logger.info('检测到 pushState 事件');
-    setTimeout(() => handlePageChange(), 100);
-  };
+/**
+ * @description: 判断新出现的输入框是否值得填充所需的匹配数据
+ * @interface WatchContext
+ * @property {KeywordSets} keywordSets - 关键字集合
+ * @property {string[]} fieldTypes - 字段类型列表
+ * @property {ScoringConfig} scoringConfig - 评分配置
+ * @property {string[]} selectors - 站点规则、评论系统适配器和富文本编辑器中定位输入框的选择器
+ */
+interface WatchContext {
+  keywordSets: KeywordSets;
+  fieldTypes: string[];
+  scoringConfig: ScoringConfig;
+  selectors: string[];
+}
 
-  history.replaceState = function(...args) {
-    originalReplaceState.apply(history, args);
-    logger.info('检测到 replaceState 事件');
-    setTimeout(() => handlePageChange(), 100);
-  };
+// 当前页面的匹配数据，每次开始检测时重新加载
+let watchContext: WatchContext | null = null;
 
-  // 监听 hashchange 事件
-  window.addEventListener('hashchange', () => {
-    logger.info('检测到 hashchange 事件');
-    handlePageChange();
-  });
+/**
+ * @description: 判断新出现的输入框是否匹配站点规则、评论系统适配器或关键字
+ * @function isWatchedFormField
+ * @param {Element} element 输入框
+ * @param {WatchContext} context 匹配数据
+ * @returns {boolean} 是否匹配
+ */
+function isWatchedFormField(element: Element, context: WatchContext): boolean {
+  if (!isFormField(element)) return false;
+  if (element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'password') return false;
 
-  // 监听 DOM 变化，检测大规模内容更新
-  const observer = new MutationObserver((mutations) => {
-    // 如果自动填充已停止且未检测到页面变化，检查是否有大规模DOM变化
-    if (fillState.isAutoFillStopped && !fillState.pageChangeDetected) {
-      let significantChanges = 0;
-      
-      mutations.forEach((mutation) => {
-        if (mutation.type === 'childList') {
-          // 检查是否有大量节点被添加或移除
-          if (mutation.addedNodes.length > 5 || mutation.removedNodes.length > 5) {
-            significantChanges++;
-          }
-          
-          // 检查是否有重要的结构性变化
-          mutation.addedNodes.forEach((node) => {
-            if (node instanceof Element) {
-              // 检查是否添加了新的表单或输入元素
-              if (node.matches('form, input, textarea') || 
-                  node.querySelector('form, input, textarea')) {
-                significantChanges += 2;
-              }
-              
-              // 检查是否添加了主要的内容区域
-              if (node.matches('main, article, section, .content, #content, .main, #main')) {
-                significantChanges += 3;
-              }
-            }
-          });
-        }
-      });
-      
-      // 如果检测到显著变化，可能是页面内容更新
-      if (significantChanges >= 3) {
-        logger.info(`检测到显著DOM变化 (${significantChanges}个变化点)，可能是页面内容更新`);
-        
-        // 检查URL或标题是否也发生了变化
-        if (detectPageChange()) {
-          fillState.pageChangeDetected = true;
-          handlePageChange();
-        }
-      }
+  const matchesSelector = context.selectors.some(selector => {
+    try {
+      return element.matches(selector);
+    } catch {
+      return false;
     }
-    
-    // 重置页面变化检测标志
-    fillState.pageChangeDetected = false;
   });
+  if (matchesSelector) return true;
+
+  const result = scoreField(collectFieldSignals(element), context.keywordSets, context.fieldTypes, context.scoringConfig);
+  return result.fieldType !== null;
+}
 
-  // 开始观察 DOM 变化
-  if (document.body) {
-    observer.observe(document.body, {
-      childList: true,
-      subtree: true,
-      attributes: false,
-      characterData: false
+/**
+ * @description: 开始检测懒加载的表单，新出现的输入框匹配已知的关键字或规则时只填充这些输入框
+ * @function startFormWatcher
+ * @returns {Promise<void>} 无返回值
+ */
+async function startFormWatcher() {
+  try {
+    // 与填充使用同一份关键字集合和字段类型，自定义字段、表单偏好和评论正文输入框出现时同样会触发填充
+    const { profile } = await resolveProfileSelection(window.location.hostname);
+    if (!profile) {
+      logger.info('未找到可用的填充身份，不检测懒加载的表单');
+      watchContext = null;
+      return;
+    }
+    const { keywordSets, fieldTypes } = await getFillFieldData(profile, window.location.hostname);
+    const scoringConfig = await getScoringConfig();
+    const response = await sendRuntimeMessage({
+      action: 'getRecipesForDomain',
+      data: { domain: window.location.hostname }
     });
-  } else {
-    // 如果 body 还未加载，等待其加载
-    document.addEventListener('DOMContentLoaded', () => {
-      observer.observe(document.body, {
-        childList: true,
-        subtree: true,
-        attributes: false,
-        characterData: false
+    const recipes: SiteRecipe[] = response?.success ? response.data || [] : [];
+
+    // 穿透 Shadow DOM 的选择器只取最后一段，用于判断输入框本身
+    const selectors = [
+      ...recipes.flatMap(recipe => recipe.fields.map(({ selector }) => selector.split('>>>').pop()!.trim())),
+      ...COMMENT_ADAPTERS.flatMap(adapter => Object.values(adapter.fields)),
+      ...RICH_EDITORS.map(editor => editor.selector)
+    ];
+    watchContext = {
+      keywordSets,
+      fieldTypes,
+      scoringConfig,
+      selectors
+    };
+
+    if (!formWatcher) {
+      formWatcher = createFormWatcher({
+        isRelevant: (element) => !!watchContext && isWatchedFormField(element, watchContext),
+        onFormsAppeared: (elements) => performFill('懒加载表单', { elements })
       });
-    });
+    }
+    formWatcher.start(buildDomIndex().roots);
+  } catch (error) {
+    logger.error('启动表单出现检测失败', error);
   }
+}
+
+/**
+ * @description: 设置手动填充：记录右键点击的输入框，并响应后台发来的手动填充请求
+ * @function setupManualFill
+ * @param {boolean} managedByParent 当前框架是否由父框架遍历，此时只响应针对输入框的填充
+ * @returns {void} 无返回值
+ */
+function setupManualFill(managedByParent: boolean) {
+  let contextMenuTarget: Element | null = null;
+
+  // 使用 composedPath 获取 Shadow DOM 内部真正被点击的元素
+  document.addEventListener('contextmenu', (event) => {
+    const [origin] = event.composedPath();
+    // 右键点击可编辑区域内的段落时，以整个编辑区域作为目标
+    contextMenuTarget = origin instanceof Element ? getEditableHost(origin) || origin : null;
+  }, true);
 
-  // 5. 定期检查页面变化（作为备用机制）
-  setInterval(() => {
-    if (detectPageChange()) {
-      handlePageChange();
+  chrome.runtime.onMessage.addListener((request) => {
+    if (request.action === 'insertCommentTemplate') {
+      if (contextMenuTarget) {
+        insertCommentTemplate(contextMenuTarget);
+      }
+      return;
     }
-  }, 2000);
+    if (request.action !== 'manualFill') return;
+
+    const { scope, profileId } = request.data || {};
+    if (scope === 'field') {
+      if (!contextMenuTarget) {
+        logger.warn('未找到右键点击的输入框，跳过手动填充');
+        return;
+      }
+      performFill('手动', { manual: true, profileId, target: contextMenuTarget });
+      return;
+    }
+
+    // 整页填充由负责遍历的框架执行
+    if (!managedByParent) {
+      performFill('手动', { manual: true, profileId });
+    }
+  });
 }
 
 /**
@@ -589,8 +1048,21 @@ export default defineContentScript({
   matches: ['<all_urls>'], // 匹配所有 URL
   runAt: 'document_start',  // 在DOM加载前运行
 
+  allFrames: true, // 跨域框架（如嵌入的评论系统）需要框架内的脚本自行填充
+
   main() {
-    logger.info('EasyFill 内容脚本已启动，开始执行填充策略');
+    const managedByParent = isFrameManagedByParent();
+
+    // 手动填充在每个框架中都需要响应，右键点击的输入框可能位于同源子框架中
+    setupManualFill(managedByParent);
+
+    // 同源子框架由父框架的内容脚本直接遍历，避免重复填充
+    if (managedByParent) {
+      logger.info('当前框架与父框架同源，由父框架负责填充');
+      return;
+    }
+
+    logger.info('EasyFill 内容脚本已启动，开始执行填充策略', { isTopFrame: window === window.top });
     
     // DOM加载前执行首次填充
     executeFirstFill();
@@ -607,6 +1079,15 @@ export default defineContentScript({
     
     // 设置高级页面变化检测
     setupAdvancedPageChangeDetection();
+
+    // 同源框架加载完成后单独填充该框架，load 事件不冒泡，需要在捕获阶段监听
+    document.addEventListener('load', (event) => {
+      const frameDocument = event.target instanceof Element ? getFrameDocument(event.target) : null;
+      if (frameDocument) {
+        logger.info('同源框架加载完成，开始填充该框架');
+        fillInputFields({ scope: frameDocument });
+      }
+    }, true);
     
     logger.info('EasyFill 填充策略已初始化，支持现代页面刷新机制检测');
   }
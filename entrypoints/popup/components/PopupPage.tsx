@@ -0,0 +1,382 @@
+/**
+ * @description  工具栏弹窗组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       PopupPage
+ *
+ * 功能说明：
+ * - 展示当前标签页的域名、黑名单检查结果和最近一次填充结果
+ * - 提供在该网站停用、加入白名单、立即填充、切换身份和反馈误匹配等快捷操作
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Divider,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Alert
+} from '@mui/material';
+import { Block, PlayArrow, BugReport, Settings, CheckCircle } from '@mui/icons-material';
+import { logger } from '../../utils/logger';
+import { sendRuntimeMessage } from '../../utils/storageUtils';
+import {
+  checkDomainInBlacklistFromBackground,
+  getBlacklistStatusFromBackground,
+  getBlockedLabel,
+  updateBlacklistSettingsFromBackground,
+  type DomainCheckResult,
+  type PolicyMode
+} from '../../utils/blacklistService';
+import { getProfileStore, saveProfileStore, selectProfileForDomain, type ProfileStore } from '../../utils/profileService';
+import type { FillStatusReport, FillState, FillMatch } from '../../utils/fillStatusService';
+import { getChoiceFieldLabel } from '../../utils/formPreferences';
+
+// 问题反馈地址
+const ISSUE_URL = 'https://github.com/achuanya/EasyFill/issues/new';
+
+// 填充结果状态的显示文字
+const FILL_STATE_LABELS: Record<FillState, string> = {
+  filled: '已填充',
+  preview: '等待确认预览',
+  blocked: '不允许填充',
+  skipped: '已忽略该网站',
+  noForm: '未找到可填充的输入框',
+  missingProfile: '缺少可用身份'
+};
+
+// 匹配来源的显示文字
+const MATCH_SOURCE_LABELS: Record<FillMatch['source'], string> = {
+  recipe: '站点规则',
+  adapter: '评论系统',
+  keyword: '关键字'
+};
+
+// 内置字段类型的显示名称，表单选项偏好使用偏好名称，其余字段类型直接显示类型名
+const FIELD_TYPE_LABELS: Record<string, string> = {
+  name: '昵称',
+  email: '邮箱',
+  url: '网址',
+  comment: '评论'
+};
+
+/**
+ * @description 获取填充结果的显示文字，不允许填充时说明是哪个名单做出的决定
+ * @function getFillStateLabel
+ * @param {FillStatusReport} status 填充结果
+ * @returns {string} 显示文字
+ */
+function getFillStateLabel(status: FillStatusReport): string {
+  return status.state === 'blocked' ? getBlockedLabel(status.list) : FILL_STATE_LABELS[status.state];
+}
+
+/**
+ * @description: 工具栏弹窗组件
+ * @function PopupPage
+ * @returns {JSX.Element}
+ */
+const PopupPage: React.FC = () => {
+  const [tabId, setTabId] = useState<number | null>(null);
+  const [domain, setDomain] = useState('');
+  const [pageUrl, setPageUrl] = useState('');
+  const [domainCheck, setDomainCheck] = useState<DomainCheckResult | null>(null);
+  const [policyMode, setPolicyMode] = useState<PolicyMode>('blacklist');
+  const [fillStatus, setFillStatus] = useState<FillStatusReport | null>(null);
+  const [profileStore, setProfileStore] = useState<ProfileStore | null>(null);
+  const [message, setMessage] = useState<{ severity: 'error' | 'info' | 'success' | 'warning', text: string } | null>(null);
+
+  useEffect(() => {
+    loadTabInfo();
+  }, []);
+
+  // 加载当前标签页的域名、黑名单检查结果和填充结果
+  const loadTabInfo = async () => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id || !tab.url) return;
+      setTabId(tab.id);
+
+      let hostname = '';
+      try {
+        const url = new URL(tab.url);
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          hostname = url.hostname;
+        }
+      } catch {
+        hostname = '';
+      }
+      setDomain(hostname);
+      setPageUrl(hostname ? tab.url : '');
+      if (!hostname) return;
+
+      const [check, blacklistStatus, statusResponse, store] = await Promise.all([
+        checkDomainInBlacklistFromBackground(tab.url),
+        getBlacklistStatusFromBackground(),
+        sendRuntimeMessage({ action: 'getTabFillStatus', data: { tabId: tab.id } }),
+        getProfileStore()
+      ]);
+      setDomainCheck(check);
+      setPolicyMode(blacklistStatus.policyMode);
+      setFillStatus(statusResponse.success ? statusResponse.data : null);
+      setProfileStore(store);
+    } catch (error) {
+      logger.error('加载当前标签页信息失败', error);
+      setMessage({ severity: 'error', text: '加载当前页面信息失败' });
+    }
+  };
+
+  // 停用当前域名：仅白名单模式下从白名单移除，其他模式下加入用户黑名单
+  const handleDisableOnSite = async () => {
+    try {
+      const status = await getBlacklistStatusFromBackground();
+      if (status.policyMode === 'allowlist') {
+        await updateBlacklistSettingsFromBackground({ userAllowlist: status.userAllowlist.filter(d => d !== domain) });
+      } else if (!status.userBlacklist.includes(domain)) {
+        await updateBlacklistSettingsFromBackground({ userBlacklist: [...status.userBlacklist, domain] });
+      }
+
+      const check = await checkDomainInBlacklistFromBackground(pageUrl);
+      setDomainCheck(check);
+      if (check.allowed) {
+        setMessage({ severity: 'warning', text: `${domain} 仍允许填充：${check.reason}，请在设置页面中修改` });
+      } else if (status.policyMode !== 'allowlist' && !status.blacklistEnabled) {
+        setMessage({ severity: 'warning', text: `已将 ${domain} 加入黑名单，但黑名单功能未开启` });
+      } else {
+        setMessage({ severity: 'success', text: `已在 ${domain} 停用自动填充` });
+      }
+    } catch (error) {
+      logger.error('停用网站填充失败', error);
+      setMessage({ severity: 'error', text: '停用失败，请稍后重试' });
+    }
+  };
+
+  // 将当前域名加入白名单，用于白名单模式下启用该网站
+  const handleAllowOnSite = async () => {
+    try {
+      const status = await getBlacklistStatusFromBackground();
+      if (!status.userAllowlist.includes(domain)) {
+        await updateBlacklistSettingsFromBackground({ userAllowlist: [...status.userAllowlist, domain] });
+      }
+
+      const check = await checkDomainInBlacklistFromBackground(pageUrl);
+      setDomainCheck(check);
+      setMessage(check.allowed
+        ? { severity: 'success', text: `已在 ${domain} 启用自动填充` }
+        : { severity: 'warning', text: `已将 ${domain} 加入白名单，但${check.reason}` });
+    } catch (error) {
+      logger.error('启用网站填充失败', error);
+      setMessage({ severity: 'error', text: '启用失败，请稍后重试' });
+    }
+  };
+
+  // 立即填充当前页面，指定身份时使用该身份
+  const handleFillNow = async (profileId?: string) => {
+    if (tabId === null) return;
+    try {
+      const response = await sendRuntimeMessage({ action: 'fillTabNow', data: { tabId, profileId } });
+      if (!response.success) {
+        setMessage({ severity: 'error', text: response.error || '填充失败' });
+        return;
+      }
+      // 等待内容脚本完成填充并上报结果
+      setTimeout(async () => {
+        const statusResponse = await sendRuntimeMessage({ action: 'getTabFillStatus', data: { tabId } });
+        setFillStatus(statusResponse.success ? statusResponse.data : null);
+      }, 500);
+    } catch (error) {
+      logger.error('立即填充失败', error);
+      setMessage({ severity: 'error', text: '填充失败，当前页面可能不支持填充' });
+    }
+  };
+
+  // 为当前域名设置身份规则，并使用该身份重新填充
+  const handleSwitchProfile = async (profileId: string) => {
+    if (!profileStore) return;
+    try {
+      const rules = profileStore.rules.filter(rule => rule.pattern !== domain);
+      const savedStore = await saveProfileStore({
+        ...profileStore,
+        rules: [...rules, { pattern: domain, profileId }]
+      });
+      setProfileStore(savedStore);
+      await handleFillNow(profileId);
+    } catch (error) {
+      logger.error('切换身份失败', error);
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : '切换身份失败' });
+    }
+  };
+
+  // 打开问题反馈页，只附带域名和匹配来源，不包含任何身份信息
+  const handleReportBadMatch = () => {
+    const matchLines = (fillStatus?.matches || [])
+      .map(match => `- ${match.fieldType}｜${MATCH_SOURCE_LABELS[match.source]}｜${match.rule}`);
+    const body = [
+      `**域名**：${domain}`,
+      `**填充结果**：${fillStatus ? getFillStateLabel(fillStatus) : '无记录'}`,
+      '',
+      '**匹配详情**：',
+      ...(matchLines.length > 0 ? matchLines : ['无']),
+      '',
+      '**问题描述**：'
+    ].join('\n');
+    const params = new URLSearchParams({ title: `[误匹配] ${domain}`, body });
+    chrome.tabs.create({ url: `${ISSUE_URL}?${params.toString()}` });
+  };
+
+  // 打开设置页面
+  const handleOpenSettings = () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL('settings.html') });
+  };
+
+  // 当前域名使用的身份，与填充时的选择方式一致：精确规则、通配符规则，否则为默认身份
+  const currentProfileId = (profileStore && selectProfileForDomain(profileStore, domain).profile?.id) || '';
+
+  return (
+    <Box sx={{ width: 320, p: 2 }}>
+      <Typography variant="h6" sx={{ fontWeight: 'bold', mb: 1 }}>
+        EasyFill
+      </Typography>
+
+      {!domain ? (
+        <Typography variant="body2" sx={{ color: 'text.secondary', mb: 2 }}>
+          当前页面不支持填充
+        </Typography>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="body1" sx={{ fontWeight: 500, wordBreak: 'break-all' }}>
+              {domain}
+            </Typography>
+            {domainCheck && (
+              <Chip
+                size="small"
+                color={domainCheck.allowed ? 'success' : 'error'}
+                label={domainCheck.allowed ? '允许填充' : '已拦截'}
+              />
+            )}
+          </Box>
+          {domainCheck && !domainCheck.allowed && (
+            <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block', mb: 1 }}>
+              {domainCheck.reason}
+            </Typography>
+          )}
+
+          <Divider sx={{ my: 1 }} />
+
+          {fillStatus ? (
+            <Box sx={{ mb: 1 }}>
+              <Typography variant="body2">
+                {getFillStateLabel(fillStatus)}
+                {fillStatus.state === 'filled' && `：${fillStatus.fieldsFilled} 个字段`}
+              </Typography>
+              {fillStatus.profileName && (
+                <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+                  身份：{fillStatus.profileName}（{fillStatus.profileRule ? `规则 ${fillStatus.profileRule}` : '默认身份'}）
+                </Typography>
+              )}
+              {fillStatus.reason && (
+                <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+                  {fillStatus.reason}
+                </Typography>
+              )}
+              {fillStatus.matches.map((match, index) => (
+                <Typography key={index} variant="caption" sx={{ display: 'block', wordBreak: 'break-all' }}>
+                  {FIELD_TYPE_LABELS[match.fieldType] || getChoiceFieldLabel(match.fieldType) || match.fieldType} ← {MATCH_SOURCE_LABELS[match.source]}：{match.rule}
+                </Typography>
+              ))}
+            </Box>
+          ) : (
+            <Typography variant="body2" sx={{ color: 'text.secondary', mb: 1 }}>
+              当前页面暂无填充记录
+            </Typography>
+          )}
+
+          {profileStore && profileStore.profiles.length > 1 && (
+            <FormControl fullWidth size="small" sx={{ my: 1 }}>
+              <InputLabel>切换身份</InputLabel>
+              <Select
+                label="切换身份"
+                value={currentProfileId}
+                onChange={(e) => handleSwitchProfile(e.target.value)}
+              >
+                {profileStore.profiles.map(profile => (
+                  <MenuItem key={profile.id} value={profile.id}>
+                    {profile.profileName}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 1, my: 1 }}>
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<PlayArrow />}
+              onClick={() => handleFillNow()}
+              sx={{ flex: 1 }}
+            >
+              立即填充
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              color="error"
+              startIcon={<Block />}
+              onClick={handleDisableOnSite}
+              disabled={domainCheck?.allowed === false}
+              sx={{ flex: 1 }}
+            >
+              在此网站停用
+            </Button>
+          </Box>
+          {domainCheck && !domainCheck.allowed && policyMode !== 'blacklist' && (
+            <Button
+              fullWidth
+              variant="outlined"
+              size="small"
+              color="success"
+              startIcon={<CheckCircle />}
+              onClick={handleAllowOnSite}
+              sx={{ mb: 1 }}
+            >
+              加入白名单
+            </Button>
+          )}
+          <Button
+            fullWidth
+            size="small"
+            startIcon={<BugReport />}
+            onClick={handleReportBadMatch}
+          >
+            反馈误匹配
+          </Button>
+        </>
+      )}
+
+      {message && (
+        <Alert severity={message.severity} onClose={() => setMessage(null)} sx={{ mt: 1 }}>
+          {message.text}
+        </Alert>
+      )}
+
+      <Divider sx={{ my: 1 }} />
+      <Button fullWidth size="small" startIcon={<Settings />} onClick={handleOpenSettings}>
+        打开设置
+      </Button>
+    </Box>
+  );
+};
+
+export default PopupPage;
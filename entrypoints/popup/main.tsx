@@ -0,0 +1,27 @@
+/**
+ * @description  PopupPage 入口文件，渲染工具栏弹窗的根组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       main
+ */
+
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import PopupPage from './components/PopupPage';
+import { logger } from '../utils/logger';
+
+// 配置日志系统根据环境自动启用
+logger.configureByEnvironment();
+
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container); // 创建 React 根节点
+  root.render(<PopupPage />); // 渲染 PopupPage 组件
+}
@@ -0,0 +1,210 @@
+/**
+ * @description  白名单管理组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       AllowlistManager
+ *
+ * 功能说明：
+ * - 添加、删除白名单规则，写法与黑名单相同，支持通配符（如 *.example.com）和路径（如 blog.example.com/posts/*）
+ * - 通过 txt 文件导入和导出白名单
+ * - 添加涉及公共后缀（如 co.uk、github.io）的规则时提示用户确认
+ * - 白名单只在“仅白名单”和“白名单与黑名单”模式下生效
+ */
+
+import React, { useState } from 'react';
+import { Box, Typography, Button, TextField, Chip, Paper } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { logger } from '../../utils/logger';
+import {
+  BlacklistStatus,
+  parseDomainListText,
+  getPublicSuffixWarningsFromBackground
+} from '../../utils/blacklistService';
+import { parseUrlRule, splitUrlRules } from '../../utils/urlPatternRules';
+
+/**
+ * @description: 白名单管理组件的属性类型定义
+ * @interface AllowlistManagerProps
+ * @param status 黑名单状态，包含填充策略模式和白名单
+ * @param onUpdate 更新设置的回调
+ * @param showMessage 显示提示消息的回调
+ */
+interface AllowlistManagerProps {
+  status: BlacklistStatus;
+  onUpdate: (updates: Partial<BlacklistStatus>) => Promise<void>;
+  showMessage: (severity: 'error' | 'info' | 'success' | 'warning', message: string) => void;
+}
+
+/**
+ * @description: 白名单管理组件
+ * @function AllowlistManager
+ * @param param0 {AllowlistManagerProps}
+ * @returns {JSX.Element}
+ */
+const AllowlistManager: React.FC<AllowlistManagerProps> = ({ status, onUpdate, showMessage }) => {
+  const [newDomain, setNewDomain] = useState('');
+
+  // 将域名加入白名单，返回新增和已存在的数量
+  const addDomains = async (domains: string[]) => {
+    const currentList = status.userAllowlist;
+    const newDomains = Array.from(new Set(domains)).filter(domain => !currentList.includes(domain));
+    if (newDomains.length > 0) {
+      await onUpdate({ userAllowlist: [...currentList, ...newDomains] });
+    }
+    return { added: newDomains.length, duplicates: domains.length - newDomains.length };
+  };
+
+  // 手动添加域名（支持空格分隔多个）
+  const handleAddDomain = async () => {
+    const domains = splitUrlRules(newDomain);
+    if (domains.length === 0) {
+      showMessage('warning', '请输入有效的域名');
+      return;
+    }
+    const invalidRules = domains.filter(domain => !parseUrlRule(domain));
+    if (invalidRules.length > 0) {
+      showMessage('error', `无法解析的规则：${invalidRules.join(' ')}`);
+      return;
+    }
+
+    // 公共后缀下的网站属于不同的所有者，添加前请用户确认
+    let suffixWarnings: string[];
+    try {
+      suffixWarnings = await getPublicSuffixWarningsFromBackground(domains);
+    } catch (error) {
+      logger.error('检查规则的公共后缀失败', error);
+      showMessage('error', '检查规则的公共后缀失败，请稍后重试');
+      return;
+    }
+    if (suffixWarnings.length > 0 && !window.confirm(`以下规则涉及公共后缀：\n${suffixWarnings.join('\n')}\n\n确定要添加吗？`)) {
+      return;
+    }
+
+    const { added } = await addDomains(domains);
+    if (added === 0) {
+      showMessage('warning', '所有域名都已存在于白名单中');
+      return;
+    }
+    setNewDomain('');
+  };
+
+  // 从 txt 文件导入白名单
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!file.name.toLowerCase().endsWith('.txt')) {
+      showMessage('error', '请上传txt格式的文件');
+      return;
+    }
+
+    try {
+      const domains = parseDomainListText(await file.text()).filter(rule => parseUrlRule(rule));
+      if (domains.length === 0) {
+        showMessage('warning', '文件中没有找到有效的规则');
+        return;
+      }
+
+      const { added, duplicates } = await addDomains(domains);
+      if (added === 0) {
+        showMessage('warning', '文件中的所有域名都已存在于白名单中');
+        return;
+      }
+      const message = `从文件成功导入 ${added} 个域名到白名单${duplicates > 0 ? `，${duplicates} 个域名已存在` : ''}`;
+
+      // 规则已导入，检查公共后缀失败时只提示用户自行检查
+      let suffixWarnings: string[];
+      try {
+        suffixWarnings = await getPublicSuffixWarningsFromBackground(domains);
+      } catch (error) {
+        logger.error('检查导入规则的公共后缀失败', error);
+        showMessage('error', `${message}，但检查规则的公共后缀失败，请自行检查是否包含 co.uk、github.io 这类公共后缀`);
+        return;
+      }
+      if (suffixWarnings.length > 0) {
+        logger.warn('导入的白名单规则涉及公共后缀', suffixWarnings);
+        showMessage('warning', `${message}，${suffixWarnings.length} 条规则涉及公共后缀，请检查：${suffixWarnings.join('；')}`);
+        return;
+      }
+      showMessage('success', message);
+    } catch (error) {
+      logger.error('导入白名单失败', error);
+      showMessage('error', '文件读取失败，请检查文件格式');
+    }
+  };
+
+  // 导出白名单为 txt 文件
+  const handleExport = () => {
+    const blob = new Blob([status.userAllowlist.join('\n')], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'my-allowlist.txt';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Paper sx={{ p: 2 }} elevation={0}>
+      <Typography variant="subtitle1" gutterBottom>
+        白名单 ({status.userAllowlist.length} 个域名)
+      </Typography>
+      {status.policyMode === 'blacklist' && (
+        <Typography variant="body2" color="text.secondary" paragraph>
+          当前为“仅黑名单”模式，白名单不生效
+        </Typography>
+      )}
+      <Box sx={{ display: 'flex', gap: 2, mb: 1, alignItems: 'flex-start' }}>
+        <TextField
+          size="small"
+          label="添加域名"
+          value={newDomain}
+          onChange={(e) => setNewDomain(e.target.value)}
+          placeholder="输入规则（支持空格分隔多个），如 *.example.com blog.example.org/posts/*"
+          onKeyPress={(e) => e.key === 'Enter' && handleAddDomain()}
+          sx={{ flexGrow: 1 }}
+        />
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={handleAddDomain}
+          sx={{ background: 'linear-gradient(to right, #007bff, #00d4ff)', mt: 0.5 }}
+          size="small"
+        >
+          添加
+        </Button>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+        <Button variant="outlined" component="label" startIcon={<UploadFileIcon />} size="small">
+          导入txt文件
+          <input type="file" accept=".txt" onChange={handleFileUpload} style={{ display: 'none' }} />
+        </Button>
+        <Button variant="text" size="small" onClick={handleExport} disabled={status.userAllowlist.length === 0}>
+          导出为txt文件
+        </Button>
+      </Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {status.userAllowlist.map(domain => (
+          <Chip
+            key={domain}
+            label={domain}
+            size="small"
+            onDelete={() => onUpdate({ userAllowlist: status.userAllowlist.filter(d => d !== domain) })}
+            deleteIcon={<DeleteIcon fontSize="small" />}
+            sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+          />
+        ))}
+      </Box>
+    </Paper>
+  );
+};
+
+export default AllowlistManager;
@@ -0,0 +1,205 @@
+/**
+ * @description  评论模板管理组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       CommentTemplateManager
+ *
+ * 功能说明：
+ * - 添加、删除问候语或签名模板，选择当前使用的模板
+ * - 配置自动填入模板的域名，其他网站可以通过右键菜单“插入评论模板”手动插入
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box, Typography, Button, TextField, Chip, Paper,
+  Radio, IconButton
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { logger } from '../../utils/logger';
+import {
+  getCommentTemplateSettings,
+  saveCommentTemplateSettings,
+  createCommentTemplate,
+  TEMPLATE_VARIABLES,
+  type CommentTemplateSettings
+} from '../../utils/commentTemplates';
+
+/**
+ * @description: 评论模板管理组件的属性类型定义
+ * @interface CommentTemplateManagerProps
+ * @param showMessage 显示提示消息的回调
+ */
+interface CommentTemplateManagerProps {
+  showMessage: (severity: 'error' | 'info' | 'success' | 'warning', message: string) => void;
+}
+
+/**
+ * @description: 评论模板管理组件
+ * @function CommentTemplateManager
+ * @param param0 {CommentTemplateManagerProps}
+ * @returns {JSX.Element}
+ */
+const CommentTemplateManager: React.FC<CommentTemplateManagerProps> = ({ showMessage }) => {
+  const [settings, setSettings] = useState<CommentTemplateSettings | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newContent, setNewContent] = useState('');
+  const [newDomain, setNewDomain] = useState('');
+
+  useEffect(() => {
+    getCommentTemplateSettings()
+      .then(setSettings)
+      .catch(error => {
+        logger.error('加载评论模板失败', error);
+        showMessage('error', '加载评论模板时发生错误');
+      });
+  }, []);
+
+  // 保存评论模板设置
+  const saveSettings = async (updated: CommentTemplateSettings, successMessage: string) => {
+    try {
+      setSettings(await saveCommentTemplateSettings(updated));
+      showMessage('success', successMessage);
+    } catch (error) {
+      logger.error('保存评论模板失败', error);
+      showMessage('error', '保存评论模板时发生错误');
+    }
+  };
+
+  // 添加模板
+  const handleAddTemplate = async () => {
+    if (!settings) return;
+    const name = newName.trim();
+    const content = newContent.trim();
+    if (!name || !content) {
+      showMessage('warning', '请填写模板名称和内容');
+      return;
+    }
+
+    await saveSettings({ ...settings, templates: [...settings.templates, createCommentTemplate(name, content)] }, '评论模板已添加');
+    setNewName('');
+    setNewContent('');
+  };
+
+  // 删除模板
+  const handleRemoveTemplate = async (id: string) => {
+    if (!settings) return;
+    await saveSettings({ ...settings, templates: settings.templates.filter(template => template.id !== id) }, '评论模板已删除');
+  };
+
+  // 添加自动填入模板的域名
+  const handleAddDomain = async () => {
+    if (!settings) return;
+    const domain = newDomain.trim().toLowerCase();
+    if (!domain) return;
+    if (settings.enabledDomains.includes(domain)) {
+      showMessage('warning', '该域名已存在');
+      return;
+    }
+
+    await saveSettings({ ...settings, enabledDomains: [...settings.enabledDomains, domain] }, '已添加启用域名');
+    setNewDomain('');
+  };
+
+  // 删除自动填入模板的域名
+  const handleRemoveDomain = async (domain: string) => {
+    if (!settings) return;
+    await saveSettings({ ...settings, enabledDomains: settings.enabledDomains.filter(d => d !== domain) }, '已删除启用域名');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Paper sx={{ p: 2 }} elevation={0}>
+      {settings.templates.map(template => (
+        <Box key={template.id} sx={{ display: 'flex', alignItems: 'flex-start', mb: 1 }}>
+          <Radio
+            size="small"
+            checked={template.id === settings.activeTemplateId}
+            onChange={() => saveSettings({ ...settings, activeTemplateId: template.id }, `已切换为模板：${template.name}`)}
+          />
+          <Box sx={{ flex: 1, pt: 1 }}>
+            <Typography variant="body2" sx={{ fontWeight: 500 }}>{template.name}</Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'pre-wrap' }}>
+              {template.content}
+            </Typography>
+          </Box>
+          <IconButton size="small" onClick={() => handleRemoveTemplate(template.id)}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 1 }}>
+        <TextField
+          size="small"
+          label="模板名称"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="如 问候语"
+        />
+        <TextField
+          size="small"
+          label="模板内容"
+          value={newContent}
+          onChange={(e) => setNewContent(e.target.value)}
+          placeholder="如 来自 {name} 的问候，欢迎回访 {url}"
+          multiline
+          minRows={2}
+        />
+        <Box>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={handleAddTemplate}
+            sx={{ background: 'linear-gradient(to right, #007bff, #00d4ff)' }}
+            size="small"
+          >
+            添加模板
+          </Button>
+        </Box>
+      </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+        可用变量：{Object.entries(TEMPLATE_VARIABLES).map(([key, label]) => `{${key}} ${label}`).join('，')}
+      </Typography>
+
+      <Typography variant="body2" sx={{ mb: 1 }}>
+        自动填入的网站（评论框为空时填入当前模板，* 表示所有网站）
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+        <TextField
+          size="small"
+          label="域名"
+          value={newDomain}
+          onChange={(e) => setNewDomain(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleAddDomain()}
+          placeholder="如 blog.example.com 或 *.example.com"
+          sx={{ flex: 1 }}
+        />
+        <Button variant="outlined" size="small" onClick={handleAddDomain}>
+          添加
+        </Button>
+      </Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {settings.enabledDomains.map(domain => (
+          <Chip
+            key={domain}
+            label={domain}
+            size="small"
+            onDelete={() => handleRemoveDomain(domain)}
+            deleteIcon={<DeleteIcon fontSize="small" />}
+            sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+          />
+        ))}
+      </Box>
+    </Paper>
+  );
+};
+
+export default CommentTemplateManager;
@@ -0,0 +1,146 @@
+/**
+ * @description  自定义字段编辑组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       CustomFieldsEditor
+ *
+ * 功能说明：
+ * - 为当前身份添加昵称、邮箱、网址以外的字段，例如 QQ、GitHub、手机号
+ * - 字段类型与关键字源中的键对应，也可以为字段补充自己的匹配关键字
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Typography, Button, TextField, IconButton, Autocomplete, Paper } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { logger } from '../../utils/logger';
+import { getKeywordSets } from '../../utils/keywordService';
+import { CustomField, createCustomField, BUILTIN_FIELD_TYPES } from '../../utils/profileService';
+
+/**
+ * @description: 自定义字段编辑组件的属性类型定义
+ * @interface CustomFieldsEditorProps
+ * @param fields 自定义字段列表
+ * @param editing 是否处于编辑状态
+ * @param onChange 字段列表变化时的回调
+ */
+interface CustomFieldsEditorProps {
+  fields: CustomField[];
+  editing: boolean;
+  onChange: (fields: CustomField[]) => void;
+}
+
+/**
+ * @description: 将用户输入的关键字文本拆分为关键字列表，支持逗号和空格分隔
+ * @function parseKeywords
+ * @param text 关键字文本
+ * @returns {string[]} 关键字列表
+ */
+function parseKeywords(text: string): string[] {
+  return text.split(/[,，\s]+/).map(keyword => keyword.trim()).filter(keyword => keyword);
+}
+
+/**
+ * @description: 自定义字段编辑组件
+ * @function CustomFieldsEditor
+ * @param param0 {CustomFieldsEditorProps}
+ * @returns {JSX.Element}
+ */
+const CustomFieldsEditor: React.FC<CustomFieldsEditorProps> = ({ fields, editing, onChange }) => {
+  const [knownFieldTypes, setKnownFieldTypes] = useState<string[]>([]); // 关键字源中已有的扩展字段类型
+
+  useEffect(() => {
+    const loadFieldTypes = async () => {
+      try {
+        const keywordSets = await getKeywordSets();
+        setKnownFieldTypes(Object.keys(keywordSets).filter(type => !BUILTIN_FIELD_TYPES.includes(type)));
+      } catch (error) {
+        logger.error('加载关键字字段类型失败', error);
+      }
+    };
+
+    loadFieldTypes();
+  }, []);
+
+  const updateField = (id: string, updates: Partial<CustomField>) => {
+    onChange(fields.map(field => field.id === id ? { ...field, ...updates } : field));
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle1">自定义字段</Typography>
+      <Typography variant="body2" color="text.secondary">
+        字段类型对应关键字源中的键（如 qq、github、phone），也可以补充自己的匹配关键字
+      </Typography>
+      {fields.map(field => (
+        <Paper key={field.id} variant="outlined" sx={{ p: 1.5, mt: 1.5 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="名称"
+              value={field.label}
+              onChange={(e) => updateField(field.id, { label: e.target.value })}
+              disabled={!editing}
+              sx={{ flex: 1 }}
+            />
+            <Autocomplete
+              freeSolo
+              size="small"
+              options={knownFieldTypes}
+              value={field.fieldType}
+              onInputChange={(_e, value) => updateField(field.id, { fieldType: value.trim().toLowerCase() })}
+              disabled={!editing}
+              sx={{ flex: 1 }}
+              renderInput={(params) => <TextField {...params} label="字段类型" />}
+            />
+            <IconButton
+              size="small"
+              disabled={!editing}
+              onClick={() => onChange(fields.filter(f => f.id !== field.id))}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+          <TextField
+            size="small"
+            label="填充值"
+            value={field.value}
+            onChange={(e) => updateField(field.id, { value: e.target.value })}
+            disabled={!editing}
+            fullWidth
+            margin="dense"
+          />
+          <TextField
+            key={`${field.id}_${field.keywords.join(',')}`}
+            size="small"
+            label="匹配关键字（可选）"
+            defaultValue={field.keywords.join(', ')}
+            onBlur={(e) => updateField(field.id, { keywords: parseKeywords(e.target.value) })}
+            placeholder="多个关键字用逗号或空格分隔，如 qq, qq_number, #qq"
+            disabled={!editing}
+            fullWidth
+            margin="dense"
+          />
+        </Paper>
+      ))}
+      {editing && (
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => onChange([...fields, createCustomField()])}
+          sx={{ mt: 1 }}
+        >
+          添加字段
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default CustomFieldsEditor;
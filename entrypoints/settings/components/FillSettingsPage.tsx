@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-09-16
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -12,8 +12,14 @@
  *
  * 功能说明：
  * - 同步设置：管理自动同步开关、同步频率等
- * - 黑名单管理：启用/禁用、官方黑名单、用户自定义黑名单
+ * - 黑名单管理：填充策略模式（黑名单、白名单或两者同时使用）、启用/禁用、官方黑名单、用户自定义黑名单和白名单
+ * - 名单规则支持域名、路径通配符、协议和端口、Chrome 匹配模式和正则表达式，可测试网址命中的规则
+ * - 添加涉及公共后缀（如 co.uk、github.io）的规则时提示用户确认
+ * - 名单支持 IPv4、IPv6 地址和 CIDR 网段，可一键停用所有内网和本机地址
+ * - 站点规则：按域名配置 CSS 选择器到字段类型的映射
+ * - 评论模板：管理问候语、签名等评论正文模板及自动填入的网站
  * - 关键字源管理：配置关键字数据源URL
+ * - 匹配策略：配置填充方式（自动填充或预览后确认）、字段识别信号的权重和填充阈值
  * - 支持批量导入黑名单域名（通过文件上传或拖拽）
  * - 提供完整的填充功能配置界面
  */
@@ -24,7 +30,7 @@ import {
   Button, CircularProgress, Divider, Tooltip, TextField,
   IconButton, Snackbar, Alert, Chip, List, ListItem,
   ListItemText, ListItemSecondaryAction, Paper, Link,
-  FormControl, InputLabel, Select, MenuItem
+  FormControl, InputLabel, Select, MenuItem, Slider
 } from '@mui/material';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import AddIcon from '@mui/icons-material/Add';
@@ -36,7 +42,45 @@ import SettingsBackupRestoreIcon from '@mui/icons-material/SettingsBackupRestore
 import FeedbackIcon from '@mui/icons-material/Feedback';
 import { logger } from '../../utils/logger';
 import { sendRuntimeMessage } from '../../utils/storageUtils';
-import { BlacklistStatus } from '../../utils/blacklistService';
+import {
+  BlacklistStatus,
+  PolicyMode,
+  parseDomainListText,
+  getPublicSuffixWarningsFromBackground
+} from '../../utils/blacklistService';
+import {
+  ScoringConfig,
+  SignalType,
+  DEFAULT_SCORING_CONFIG,
+  getScoringConfig,
+  updateScoringConfig
+} from '../../utils/fieldScoring';
+import { FillPreferences, FillMode, getFillPreferences, updateFillPreferences } from '../../utils/fillPreferences';
+import SiteRecipeManager from './SiteRecipeManager';
+import CommentTemplateManager from './CommentTemplateManager';
+import AllowlistManager from './AllowlistManager';
+import UrlRuleTester from './UrlRuleTester';
+import { parseUrlRule, splitUrlRules } from '../../utils/urlPatternRules';
+
+// 识别信号的显示名称
+const SIGNAL_LABELS: Record<SignalType, string> = {
+  name: 'name 属性',
+  id: 'id 属性',
+  type: 'type 属性',
+  autocomplete: 'autocomplete 属性',
+  label: '关联的 label 文本',
+  ariaLabel: 'aria-label 文本',
+  placeholder: 'placeholder 提示文本',
+  className: 'class 名称',
+  surroundingText: '周边说明文本'
+};
+
+// 填充策略模式的显示名称和说明
+const POLICY_MODE_OPTIONS: Array<{ value: PolicyMode, label: string, description: string }> = [
+  { value: 'blacklist', label: '仅黑名单', description: '除黑名单中的网站外都自动填充' },
+  { value: 'allowlist', label: '仅白名单', description: '只在白名单中的网站自动填充，黑名单不生效' },
+  { value: 'both', label: '白名单与黑名单', description: '只在白名单中的网站自动填充，同时应用黑名单；两个名单都命中时范围更小的规则优先，范围相同时黑名单优先' }
+];
 
 interface SyncStatus {
   lastSync: number;
@@ -55,6 +99,8 @@ const FillSettingsPage: React.FC = () => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [customUrl, setCustomUrl] = useState('');
   const [editingUrl, setEditingUrl] = useState(false);
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+  const [fillPreferences, setFillPreferences] = useState<FillPreferences | null>(null);
   
   // Snackbar状态
   const [openSnackbar, setOpenSnackbar] = useState(false);
@@ -65,6 +111,8 @@ const FillSettingsPage: React.FC = () => {
   useEffect(() => {
     loadBlacklistStatus();
     loadSyncStatus();
+    getScoringConfig().then(setScoringConfig);
+    loadFillPreferences();
   }, []);
 
   // 加载黑名单状态
@@ -121,16 +169,17 @@ const FillSettingsPage: React.FC = () => {
 
     try {
       const text = await file.text();
-      const domains = text
-        .split('\n')
-        .map(line => line.trim().toLowerCase())
-        .filter(line => line && !line.startsWith('#') && !line.startsWith('//'))
-        .filter(domain => domain); // 过滤空行和注释行
+      const rules = parseDomainListText(text);
+      const domains = rules.filter(rule => parseUrlRule(rule));
 
       if (domains.length === 0) {
-        showMessage('warning', '文件中没有找到有效的域名');
+        showMessage('warning', '文件中没有找到有效的规则');
         return;
       }
+      const invalidRules = rules.filter(rule => !parseUrlRule(rule));
+      if (invalidRules.length > 0) {
+        logger.warn('导入黑名单时跳过无法解析的规则', invalidRules);
+      }
 
       const currentList = status?.userBlacklist || [];
       const newDomains: string[] = [];
@@ -156,7 +205,24 @@ const FillSettingsPage: React.FC = () => {
       if (duplicates.length > 0) {
         message += `，${duplicates.length} 个域名已存在`;
       }
-      showMessage('success', message);
+      if (invalidRules.length > 0) {
+        message += `，${invalidRules.length} 条规则无法解析已跳过（如 ${invalidRules.slice(0, 3).join(' ')}）`;
+      }
+
+      // 规则已导入，检查公共后缀失败时只提示用户自行检查
+      let suffixWarnings: string[];
+      try {
+        suffixWarnings = await getPublicSuffixWarningsFromBackground(newDomains);
+      } catch (error) {
+        logger.error('检查导入规则的公共后缀失败', error);
+        showMessage('error', `${message}，但检查规则的公共后缀失败，请自行检查是否包含 co.uk、github.io 这类公共后缀`);
+        return;
+      }
+      if (suffixWarnings.length > 0) {
+        logger.warn('导入的黑名单规则涉及公共后缀', suffixWarnings);
+        message += `，${suffixWarnings.length} 条规则涉及公共后缀，请检查：${suffixWarnings.join('；')}`;
+      }
+      showMessage(suffixWarnings.length > 0 ? 'warning' : 'success', message);
     } catch (error) {
       logger.error('文件上传失败', error);
       showMessage('error', '文件读取失败，请检查文件格式');
@@ -276,6 +342,38 @@ const FillSettingsPage: React.FC = () => {
     }
   };
 
+  // 加载填充偏好设置
+  const loadFillPreferences = async () => {
+    try {
+      setFillPreferences(await getFillPreferences());
+    } catch (error) {
+      logger.error('加载填充偏好设置失败', error);
+    }
+  };
+
+  // 更新填充偏好设置
+  const saveFillPreferences = async (updates: Partial<FillPreferences>) => {
+    try {
+      await updateFillPreferences(updates);
+      setFillPreferences(prev => prev ? { ...prev, ...updates } : null);
+      showMessage('success', '填充设置已更新');
+    } catch (error) {
+      logger.error('更新填充偏好设置失败', error);
+      showMessage('error', '更新填充设置时发生错误');
+    }
+  };
+
+  // 更新匹配策略
+  const saveScoringConfig = async (updates: Partial<ScoringConfig>) => {
+    try {
+      const updated = await updateScoringConfig(updates);
+      setScoringConfig(updated);
+    } catch (error) {
+      logger.error('更新匹配策略失败', error);
+      showMessage('error', '更新匹配策略时发生错误');
+    }
+  };
+
   // 重置为默认URL
   const resetToDefaultUrl = () => {
     const defaultUrl = 'https://lhasa-1253887673.cos.ap-shanghai.myqcloud.com/EasyFill/keywords.json';
@@ -298,8 +396,13 @@ const FillSettingsPage: React.FC = () => {
       return;
     }
 
-    // 支持空格分隔的多个域名
-    const domains = newDomain.trim().split(/\s+/).map(d => d.toLowerCase()).filter(d => d);
+    // 支持空格分隔的多个规则，正则表达式规则保留大小写和其中的空格
+    const domains = splitUrlRules(newDomain);
+    const invalidRules = domains.filter(domain => !parseUrlRule(domain));
+    if (invalidRules.length > 0) {
+      showMessage('error', `无法解析的规则：${invalidRules.join(' ')}`);
+      return;
+    }
     const currentList = status?.userBlacklist || [];
     const newDomains: string[] = [];
     const duplicates: string[] = [];
@@ -317,6 +420,19 @@ const FillSettingsPage: React.FC = () => {
       return;
     }
 
+    // 公共后缀下的网站属于不同的所有者，添加前请用户确认
+    let suffixWarnings: string[];
+    try {
+      suffixWarnings = await getPublicSuffixWarningsFromBackground(newDomains);
+    } catch (error) {
+      logger.error('检查规则的公共后缀失败', error);
+      showMessage('error', '检查规则的公共后缀失败，请稍后重试');
+      return;
+    }
+    if (suffixWarnings.length > 0 && !window.confirm(`以下规则涉及公共后缀：\n${suffixWarnings.join('\n')}\n\n确定要添加吗？`)) {
+      return;
+    }
+
     const updatedList = [...currentList, ...newDomains];
     await updateSettings({ userBlacklist: updatedList });
     setNewDomain('');
@@ -462,13 +578,32 @@ const FillSettingsPage: React.FC = () => {
       <Box>
         <Typography variant="h6" gutterBottom>
           黑名单管理
-          <Tooltip title="黑名单功能可以阻止在指定网站上进行自动填充，包括官方维护的黑名单和您自定义的黑名单">
+          <Tooltip title="黑名单功能可以阻止在指定网站上进行自动填充，包括官方维护的黑名单和您自定义的黑名单；切换为白名单模式后只在您允许的网站上填充">
             <IconButton size="small" sx={{ ml: 1 }}>
               <HelpOutlineIcon fontSize="small" />
             </IconButton>
           </Tooltip>
         </Typography>
         
+        {/* 填充策略模式 */}
+        <Paper sx={{ p: 2 }} elevation={0}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>填充策略</InputLabel>
+            <Select
+              label="填充策略"
+              value={status?.policyMode || 'blacklist'}
+              onChange={(e) => updateSettings({ policyMode: e.target.value as PolicyMode })}
+            >
+              {POLICY_MODE_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            {POLICY_MODE_OPTIONS.find(option => option.value === (status?.policyMode || 'blacklist'))?.description}
+          </Typography>
+        </Paper>
+
         {/* 黑名单启用开关 */}
         <Paper sx={{ p: 2}} elevation={0}>
           <FormControlLabel
@@ -480,6 +615,18 @@ const FillSettingsPage: React.FC = () => {
             }
             label="启用黑名单"
           />
+          <FormControlLabel
+            control={
+              <Switch
+                checked={status?.blockPrivateNetwork || false}
+                onChange={(e) => updateSettings({ blockPrivateNetwork: e.target.checked })}
+              />
+            }
+            label="在内网和本机地址上停用"
+          />
+          <Typography variant="body2" color="text.secondary">
+            包括 localhost、*.local、*.lan、127.0.0.0/8、10.0.0.0/8、172.16.0.0/12、192.168.0.0/16、::1、fc00::/7 等地址，与黑名单一同生效
+          </Typography>
         </Paper>
         
         {/* 官方黑名单 */}
@@ -522,7 +669,7 @@ const FillSettingsPage: React.FC = () => {
         <Paper sx={{ p: 2 }} elevation={0}>
           <Typography variant="subtitle1" gutterBottom>
             自定义黑名单 ({status?.userBlacklist?.length || 0} 个域名)
-            <Tooltip title="您可以添加自己的黑名单域名，支持通配符（如 *.baidu.com）">
+            <Tooltip title="您可以添加自己的黑名单规则：域名（如 *.baidu.com）、路径（如 example.com/admin/*）、匹配模式（如 https://*.example.com:8443/*、<all_urls>）、IP 地址或网段（如 10.0.0.0/8、::1）或以 / 包围的正则表达式">
               <IconButton size="small" sx={{ ml: 1 }}>
                 <HelpOutlineIcon fontSize="small" />
               </IconButton>
@@ -570,7 +717,7 @@ const FillSettingsPage: React.FC = () => {
               label="添加域名"
               value={newDomain}
               onChange={(e) => setNewDomain(e.target.value)}
-              placeholder="输入域名（支持空格分隔多个），如 *.baidu.com *.google.com"
+              placeholder="输入规则（支持空格分隔多个），如 *.baidu.com example.com/admin/*"
               onKeyPress={(e) => e.key === 'Enter' && addUserDomain()}
               sx={{ flexGrow: 1 }}
               multiline
@@ -587,7 +734,8 @@ const FillSettingsPage: React.FC = () => {
             </Button>
           </Box>
           <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
-            支持通配符域名（如 *.baidu.com），可以空格分隔输入多个域名
+            不写协议的域名同时匹配子域名（co.uk、github.io 等公共后缀除外）；中文域名与 punycode 形式等价；路径中 * 匹配任意字符；写出协议时域名只精确匹配，*:// 匹配 http 和 https；
+            正则表达式规则（如 /\/login\b/i）匹配完整网址，不能包含空格，可用 \s 代替
           </Typography>
           {status?.userBlacklist && status.userBlacklist.length > 0 && (
             <Paper sx={{ p: 2 }} elevation={0}>
@@ -662,6 +810,145 @@ const FillSettingsPage: React.FC = () => {
             </Paper>
           )}
         </Paper>
+
+        {/* 白名单 */}
+        {status && (
+          <AllowlistManager status={status} onUpdate={updateSettings} showMessage={showMessage} />
+        )}
+
+        {/* 规则测试 */}
+        <UrlRuleTester showMessage={showMessage} />
+      </Box>
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* 站点规则 */}
+      <Box>
+        <Typography variant="h6" gutterBottom>
+          站点规则
+          <Tooltip title="部分网站的输入框名称被混淆，关键字无法识别。可以为这些网站指定选择器和对应的字段类型，站点规则优先于关键字匹配">
+            <IconButton size="small" sx={{ ml: 1 }}>
+              <HelpOutlineIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Typography>
+        <SiteRecipeManager showMessage={showMessage} />
+      </Box>
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* 评论模板 */}
+      <Box>
+        <Typography variant="h6" gutterBottom>
+          评论模板
+          <Tooltip title="问候语或签名等评论正文模板。在启用的网站上，评论框为空时自动填入；在其他网站可以右键点击评论框，选择“插入评论模板”">
+            <IconButton size="small" sx={{ ml: 1 }}>
+              <HelpOutlineIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Typography>
+        <CommentTemplateManager showMessage={showMessage} />
+      </Box>
+
+      <Divider sx={{ my: 3 }} />
+
+      {/* 匹配策略 */}
+      <Box>
+        <Typography variant="h6" gutterBottom>
+          匹配策略
+          <Tooltip title="EasyFill 会综合输入框的多种信号为每种字段打分，总分达到填充阈值才会填充。调高阈值更保守，调低阈值更积极">
+            <IconButton size="small" sx={{ ml: 1 }}>
+              <HelpOutlineIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Typography>
+
+        <Paper sx={{ p: 2 }} elevation={0}>
+          <FormControl size="small" sx={{ minWidth: 200, mb: 1 }}>
+            <InputLabel>填充方式</InputLabel>
+            <Select
+              value={fillPreferences?.fillMode || 'auto'}
+              label="填充方式"
+              onChange={(e) => saveFillPreferences({ fillMode: e.target.value as FillMode })}
+            >
+              <MenuItem value="auto">自动填充</MenuItem>
+              <MenuItem value="preview">预览后确认</MenuItem>
+            </Select>
+          </FormControl>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            预览模式下会先高亮待填充的输入框并显示计划填充的值，可以逐项填充、全部填充或忽略，全部填充和忽略的选择会按网站记住
+          </Typography>
+          {fillPreferences && Object.keys(fillPreferences.domainFillDecisions).length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {Object.entries(fillPreferences.domainFillDecisions).map(([domain, decision]) => (
+                <Chip
+                  key={domain}
+                  label={`${domain}：${decision === 'accept' ? '直接填充' : '不填充'}`}
+                  size="small"
+                  color={decision === 'accept' ? 'primary' : 'default'}
+                  variant="outlined"
+                  onDelete={() => {
+                    const { [domain]: _removed, ...rest } = fillPreferences.domainFillDecisions;
+                    saveFillPreferences({ domainFillDecisions: rest });
+                  }}
+                  sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+                />
+              ))}
+            </Box>
+          )}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={fillPreferences?.overrideAutocomplete || false}
+                onChange={(e) => saveFillPreferences({ overrideAutocomplete: e.target.checked })}
+              />
+            }
+            label="覆盖网页的 autocomplete 属性"
+          />
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+            默认保留网页自身的 autocomplete 提示并用于识别字段；开启后会将输入框统一改为 on（密码字段除外）
+          </Typography>
+          <Typography variant="body2" gutterBottom>
+            填充阈值：{scoringConfig.threshold.toFixed(1)}
+          </Typography>
+          <Slider
+            size="small"
+            value={scoringConfig.threshold}
+            min={0.2}
+            max={2}
+            step={0.1}
+            onChange={(_e, value) => setScoringConfig(prev => ({ ...prev, threshold: value as number }))}
+            onChangeCommitted={(_e, value) => saveScoringConfig({ threshold: value as number })}
+          />
+          {(Object.keys(SIGNAL_LABELS) as SignalType[]).map(signal => (
+            <Box key={signal} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Typography variant="body2" color="text.secondary" sx={{ width: 160, flexShrink: 0 }}>
+                {SIGNAL_LABELS[signal]}：{scoringConfig.weights[signal].toFixed(1)}
+              </Typography>
+              <Slider
+                size="small"
+                value={scoringConfig.weights[signal]}
+                min={0}
+                max={1.5}
+                step={0.1}
+                onChange={(_e, value) => setScoringConfig(prev => ({
+                  ...prev,
+                  weights: { ...prev.weights, [signal]: value as number }
+                }))}
+                onChangeCommitted={(_e, value) => saveScoringConfig({
+                  weights: { ...scoringConfig.weights, [signal]: value as number }
+                })}
+              />
+            </Box>
+          ))}
+          <Button
+            size="small"
+            startIcon={<SettingsBackupRestoreIcon />}
+            onClick={() => saveScoringConfig(DEFAULT_SCORING_CONFIG)}
+          >
+            恢复默认
+          </Button>
+        </Paper>
       </Box>
 
       <Divider sx={{ my: 3 }} />
@@ -0,0 +1,151 @@
+/**
+ * @description  表单选项偏好编辑组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       FormPreferencesEditor
+ *
+ * 功能说明：
+ * - 为当前身份设置“记住我”、“有新回复时邮件通知我”等常见复选框是否勾选，默认不处理
+ * - 为下拉选择框和单选框（如登录方式）配置匹配关键字和要选中的选项
+ */
+
+import React from 'react';
+import {
+  Box, Typography, Button, TextField, IconButton, Paper,
+  Select, MenuItem, FormControl, InputLabel
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import {
+  CHECKBOX_PREFERENCES,
+  CHECKBOX_STATE_LABELS,
+  createSelectPreference,
+  type FormPreferences,
+  type SelectPreference,
+  type CheckboxPreferenceKey,
+  type CheckboxPreferenceState
+} from '../../utils/formPreferences';
+
+/**
+ * @description: 表单选项偏好编辑组件的属性类型定义
+ * @interface FormPreferencesEditorProps
+ * @param preferences 表单选项偏好
+ * @param editing 是否处于编辑状态
+ * @param onChange 偏好变化时的回调
+ */
+interface FormPreferencesEditorProps {
+  preferences: FormPreferences;
+  editing: boolean;
+  onChange: (preferences: FormPreferences) => void;
+}
+
+/**
+ * @description: 将用户输入的关键字文本拆分为关键字列表，支持逗号和空格分隔
+ * @function parseKeywords
+ * @param text 关键字文本
+ * @returns {string[]} 关键字列表
+ */
+function parseKeywords(text: string): string[] {
+  return text.split(/[,，\s]+/).map(keyword => keyword.trim()).filter(keyword => keyword);
+}
+
+/**
+ * @description: 表单选项偏好编辑组件
+ * @function FormPreferencesEditor
+ * @param param0 {FormPreferencesEditorProps}
+ * @returns {JSX.Element}
+ */
+const FormPreferencesEditor: React.FC<FormPreferencesEditorProps> = ({ preferences, editing, onChange }) => {
+  const updateCheckbox = (key: CheckboxPreferenceKey, state: CheckboxPreferenceState) => {
+    onChange({ ...preferences, checkboxes: { ...preferences.checkboxes, [key]: state } });
+  };
+
+  const updateSelect = (id: string, updates: Partial<SelectPreference>) => {
+    onChange({
+      ...preferences,
+      selects: preferences.selects.map(select => select.id === id ? { ...select, ...updates } : select)
+    });
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle1">表单选项</Typography>
+      <Typography variant="body2" color="text.secondary">
+        评论表单中常见的复选框和选择框，默认不处理
+      </Typography>
+      {CHECKBOX_PREFERENCES.map(definition => (
+        <FormControl key={definition.key} fullWidth size="small" sx={{ mt: 1.5 }} disabled={!editing}>
+          <InputLabel>{definition.label}</InputLabel>
+          <Select
+            label={definition.label}
+            value={preferences.checkboxes[definition.key]}
+            onChange={(e) => updateCheckbox(definition.key, e.target.value as CheckboxPreferenceState)}
+          >
+            {Object.entries(CHECKBOX_STATE_LABELS).map(([state, label]) => (
+              <MenuItem key={state} value={state}>{label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      ))}
+      {preferences.selects.map(select => (
+        <Paper key={select.id} variant="outlined" sx={{ p: 1.5, mt: 1.5 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="名称"
+              value={select.label}
+              onChange={(e) => updateSelect(select.id, { label: e.target.value })}
+              disabled={!editing}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              label="选中的选项"
+              value={select.option}
+              onChange={(e) => updateSelect(select.id, { option: e.target.value })}
+              placeholder="选项文字或值，如 GitHub"
+              disabled={!editing}
+              sx={{ flex: 1 }}
+            />
+            <IconButton
+              size="small"
+              disabled={!editing}
+              onClick={() => onChange({ ...preferences, selects: preferences.selects.filter(s => s.id !== select.id) })}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+          <TextField
+            key={`${select.id}_${select.keywords.join(',')}`}
+            size="small"
+            label="匹配关键字"
+            defaultValue={select.keywords.join(', ')}
+            onBlur={(e) => updateSelect(select.id, { keywords: parseKeywords(e.target.value) })}
+            placeholder="选择框的 name、id 或说明文字，如 provider, #login-type, 登录方式"
+            disabled={!editing}
+            fullWidth
+            margin="dense"
+          />
+        </Paper>
+      ))}
+      {editing && (
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => onChange({ ...preferences, selects: [...preferences.selects, createSelectPreference()] })}
+          sx={{ mt: 1 }}
+        >
+          添加选择项
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default FormPreferencesEditor;
@@ -0,0 +1,258 @@
+/**
+ * @description  身份管理组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       ProfileManager
+ *
+ * 功能说明：
+ * - 身份列表：新建、重命名、删除、复制身份，设置默认身份
+ * - 域名规则：为指定域名（支持 *.example.com 通配符）选择使用的身份
+ */
+
+import React, { useState } from 'react';
+import {
+  Box, Typography, Button, TextField, IconButton, Tooltip, Chip,
+  List, ListItemButton, ListItemText, Paper, FormControl, InputLabel,
+  Select, MenuItem
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import { logger } from '../../utils/logger';
+import { ProfileStore, createProfile } from '../../utils/profileService';
+
+/**
+ * @description: 身份管理组件的属性类型定义
+ * @interface ProfileManagerProps
+ * @param store 身份存储结构
+ * @param selectedProfileId 当前正在编辑的身份ID
+ * @param onSelectProfile 切换正在编辑的身份时的回调
+ * @param onStoreChange 身份列表或规则发生变化时的回调，负责持久化
+ */
+interface ProfileManagerProps {
+  store: ProfileStore;
+  selectedProfileId: string;
+  onSelectProfile: (profileId: string) => void;
+  onStoreChange: (store: ProfileStore) => Promise<void>;
+}
+
+/**
+ * @description: 身份管理组件，展示身份列表和域名身份规则
+ * @function ProfileManager
+ * @param param0 {ProfileManagerProps}
+ * @returns {JSX.Element}
+ */
+const ProfileManager: React.FC<ProfileManagerProps> = ({
+  store,
+  selectedProfileId,
+  onSelectProfile,
+  onStoreChange,
+}) => {
+  const [newProfileName, setNewProfileName] = useState('');
+  const [newRulePattern, setNewRulePattern] = useState('');
+  const [newRuleProfileId, setNewRuleProfileId] = useState('');
+
+  // 新建身份
+  const handleCreateProfile = async () => {
+    if (!newProfileName.trim()) return;
+    const profile = createProfile(newProfileName);
+    logger.info('新建身份', { profileName: profile.profileName });
+    await onStoreChange({ ...store, profiles: [...store.profiles, profile] });
+    setNewProfileName('');
+    onSelectProfile(profile.id);
+  };
+
+  // 重命名身份
+  const handleRenameProfile = async (profileId: string) => {
+    const profile = store.profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const newName = window.prompt('请输入新的身份名称', profile.profileName);
+    if (!newName || !newName.trim() || newName.trim() === profile.profileName) return;
+    await onStoreChange({
+      ...store,
+      profiles: store.profiles.map(p => p.id === profileId
+        ? { ...p, profileName: newName.trim(), updatedAt: Date.now() }
+        : p)
+    });
+  };
+
+  // 复制身份
+  const handleDuplicateProfile = async (profileId: string) => {
+    const profile = store.profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const copy = createProfile(`${profile.profileName} 副本`, {
+      name: profile.name,
+      email: profile.email,
+      url: profile.url,
+      customFields: profile.customFields,
+      formPreferences: profile.formPreferences
+    });
+    await onStoreChange({ ...store, profiles: [...store.profiles, copy] });
+    onSelectProfile(copy.id);
+  };
+
+  // 删除身份
+  const handleDeleteProfile = async (profileId: string) => {
+    if (store.profiles.length <= 1) return;
+    const profile = store.profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    if (!window.confirm(`确定要删除身份「${profile.profileName}」吗？使用该身份的域名规则也会被删除。`)) return;
+    await onStoreChange({ ...store, profiles: store.profiles.filter(p => p.id !== profileId) });
+  };
+
+  // 设置默认身份
+  const handleSetDefault = async (profileId: string) => {
+    if (store.defaultProfileId === profileId) return;
+    await onStoreChange({ ...store, defaultProfileId: profileId });
+  };
+
+  // 添加域名规则
+  const handleAddRule = async () => {
+    const pattern = newRulePattern.trim().toLowerCase();
+    const profileId = newRuleProfileId || selectedProfileId;
+    if (!pattern || !profileId) return;
+    // 同一规则只保留一条，重复添加时覆盖原规则
+    const rules = store.rules.filter(rule => rule.pattern !== pattern);
+    await onStoreChange({ ...store, rules: [...rules, { pattern, profileId }] });
+    setNewRulePattern('');
+  };
+
+  // 删除域名规则
+  const handleRemoveRule = async (pattern: string) => {
+    await onStoreChange({ ...store, rules: store.rules.filter(rule => rule.pattern !== pattern) });
+  };
+
+  const getProfileName = (profileId: string) =>
+    store.profiles.find(p => p.id === profileId)?.profileName || '未知身份';
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {/* 身份列表 */}
+      <Typography variant="subtitle1" gutterBottom>身份列表</Typography>
+      <Paper variant="outlined" sx={{ mb: 2 }}>
+        <List dense disablePadding>
+          {store.profiles.map(profile => (
+            <ListItemButton
+              key={profile.id}
+              selected={profile.id === selectedProfileId}
+              onClick={() => onSelectProfile(profile.id)}
+            >
+              <ListItemText
+                primary={profile.profileName}
+                secondary={profile.name || profile.email ? `${profile.name} ${profile.email}` : '未填写'}
+              />
+              <Tooltip title={profile.id === store.defaultProfileId ? '默认身份' : '设为默认身份'}>
+                <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleSetDefault(profile.id); }}>
+                  {profile.id === store.defaultProfileId
+                    ? <StarIcon fontSize="small" color="warning" />
+                    : <StarBorderIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="重命名">
+                <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleRenameProfile(profile.id); }}>
+                  <EditIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="复制">
+                <IconButton size="small" onClick={(e) => { e.stopPropagation(); handleDuplicateProfile(profile.id); }}>
+                  <ContentCopyIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={store.profiles.length <= 1 ? '至少需要保留一个身份' : '删除'}>
+                <span>
+                  <IconButton
+                    size="small"
+                    disabled={store.profiles.length <= 1}
+                    onClick={(e) => { e.stopPropagation(); handleDeleteProfile(profile.id); }}
+                  >
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </ListItemButton>
+          ))}
+        </List>
+      </Paper>
+      <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+        <TextField
+          size="small"
+          label="新身份名称"
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleCreateProfile()}
+          placeholder="如 工作、项目"
+          sx={{ flexGrow: 1 }}
+        />
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={handleCreateProfile}
+        >
+          新建
+        </Button>
+      </Box>
+
+      {/* 域名身份规则 */}
+      <Typography variant="subtitle1" gutterBottom>域名规则</Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        命中规则的网站使用指定身份，其余网站使用默认身份。支持精确域名和通配符（如 *.example.com）
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+        <TextField
+          size="small"
+          label="域名"
+          value={newRulePattern}
+          onChange={(e) => setNewRulePattern(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleAddRule()}
+          placeholder="如 blog.example.com 或 *.example.com"
+          sx={{ flexGrow: 1 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>身份</InputLabel>
+          <Select
+            value={newRuleProfileId || selectedProfileId}
+            label="身份"
+            onChange={(e) => setNewRuleProfileId(String(e.target.value))}
+          >
+            {store.profiles.map(profile => (
+              <MenuItem key={profile.id} value={profile.id}>{profile.profileName}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={handleAddRule}
+        >
+          添加
+        </Button>
+      </Box>
+      {store.rules.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {store.rules.map(rule => (
+            <Chip
+              key={rule.pattern}
+              label={`${rule.pattern} → ${getProfileName(rule.profileId)}`}
+              size="small"
+              onDelete={() => handleRemoveRule(rule.pattern)}
+              sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ProfileManager;
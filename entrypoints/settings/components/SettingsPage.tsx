@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-04-13
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -13,7 +13,7 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { Box, Tabs, Tab, Typography } from '@mui/material';
+import { Box, Tabs, Tab, Typography, Snackbar, Alert } from '@mui/material';
 import { AccountBox, SyncAlt, Extension, ContactPage, Article, Policy, Chat, Security } from '@mui/icons-material';
 import { marked } from 'marked';
 import GravatarAvatar from './GravatarAvatar';
@@ -27,7 +27,9 @@ import WeChatOfficialAccount from './WeChatOfficialAccount';
 import GitHubCorner from './GitHubCorner';
 import { encryptData, decryptData } from '../../utils/cryptoUtils';
 import { logger } from '../../utils/logger';
-import { getLocalCacheData, setLocalCacheData, getEncryptedStorageData, setEncryptedStorageData } from '../../utils/storageUtils';
+import { getLocalCacheData, setLocalCacheData } from '../../utils/storageUtils';
+import { ProfileStore, UserProfile, CustomField, getProfileStore, saveProfileStore } from '../../utils/profileService';
+import { FormPreferences, createDefaultFormPreferences } from '../../utils/formPreferences';
 
 // 设置页面组件
 // 该组件用于显示用户的设置选项，包括个人信息、推荐插件、关于作者、更新日志和隐私权政策等
@@ -37,36 +39,45 @@ const SettingsPage: React.FC = () => {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [url, setUrl] = useState('');
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [formPreferences, setFormPreferences] = useState<FormPreferences>(createDefaultFormPreferences());
+
+  const [profileStore, setProfileStore] = useState<ProfileStore | null>(null); // 身份存储结构
+  const [selectedProfileId, setSelectedProfileId] = useState('');               // 当前正在编辑的身份ID
 
   const [editing, setEditing] = useState(false); // 是否处于编辑模式
+  const [saveError, setSaveError] = useState('');  // 读取或保存身份失败的原因，例如同步尚未完成或超过同步存储的大小上限
 
   const [aboutAuthorContent, setAboutAuthorContent] = useState<string>('');               // 关于作者的 Markdown 内容
   const [recommendedPluginsContent, setRecommendedPluginsContent] = useState<string>(''); // 推荐插件的 Markdown 内容
   const [updateLogContent, setUpdateLogContent] = useState<string>('');                   // 更新日志的 Markdown 内容
   const [privacyPolicyContent, setPrivacyPolicyContent] = useState<string>('');           // 隐私权政策的 Markdown 内容
 
+  // 将身份数据载入编辑表单
+  const applyProfileToForm = (profile: UserProfile | undefined) => {
+    setName(profile?.name || '');
+    setEmail(profile?.email || '');
+    setUrl(profile?.url || '');
+    setCustomFields(profile?.customFields || []);
+    setFormPreferences(profile?.formPreferences || createDefaultFormPreferences());
+    // 空白身份直接进入编辑模式
+    setEditing(!(profile && (profile.name || profile.email || profile.url)));
+  };
+
   // 从 chrome.storage 读取用户数据
   useEffect(() => {
     const loadUserData = async () => {
       logger.info('开始加载用户数据');
       try {
-        const storedName = await getEncryptedStorageData({ key: 'name', storageType: 'sync' }) || '';
-        const storedEmail = await getEncryptedStorageData({ key: 'email', storageType: 'sync' }) || '';
-         const storedUrl = await getEncryptedStorageData({ key: 'url', storageType: 'sync' }) || '';
-          
-        setName(storedName);
-        setEmail(storedEmail);
-        setUrl(storedUrl);
-
-        if (storedName || storedEmail || storedUrl) {
-          setEditing(false);
-          logger.info('用户数据加载成功');
-        } else {
-          setEditing(true);
-          logger.info('未找到用户数据，进入编辑模式');
-        }
+        const store = await getProfileStore();
+        const defaultProfile = store.profiles.find(p => p.id === store.defaultProfileId) || store.profiles[0];
+
+        setProfileStore(store);
+        setSelectedProfileId(defaultProfile?.id || '');
+        logger.info('用户数据加载成功', { profileCount: store.profiles.length });
       } catch (error) {
         logger.error('加载用户数据时出错', error);
+        setSaveError(error instanceof Error ? error.message : '读取身份失败，请稍后重试');
         setEditing(true);
       }
     };
@@ -74,6 +85,12 @@ const SettingsPage: React.FC = () => {
     loadUserData();
   }, []);
 
+  // 切换身份后将其数据载入编辑表单
+  useEffect(() => {
+    if (!profileStore || !selectedProfileId) return;
+    applyProfileToForm(profileStore.profiles.find(p => p.id === selectedProfileId));
+  }, [selectedProfileId]);
+
   useEffect(() => {
     // 加载 Markdown 内容
     const fetchMarkdown = async (url: string) => {
@@ -141,14 +158,46 @@ const SettingsPage: React.FC = () => {
         return;
       }
       
-      await setEncryptedStorageData({ key: 'name', storageType: 'sync' }, name);
-       await setEncryptedStorageData({ key: 'email', storageType: 'sync' }, email);
-       await setEncryptedStorageData({ key: 'url', storageType: 'sync' }, url);
+      if (!profileStore) {
+        logger.warn('身份数据尚未加载，无法保存');
+        return;
+      }
+
+      const savedStore = await saveProfileStore({
+        ...profileStore,
+        profiles: profileStore.profiles.map(profile => profile.id === selectedProfileId
+          ? { ...profile, name, email, url, customFields, formPreferences, updatedAt: Date.now() }
+          : profile)
+      });
+      setProfileStore(savedStore);
       
       setEditing(false);
       logger.info('用户数据保存成功');
     } catch (error) {
       logger.error('加密或保存用户数据时出错', error);
+      setSaveError(error instanceof Error ? error.message : '保存失败，请稍后重试');
+    }
+  };
+
+  // 切换正在编辑的身份
+  const handleSelectProfile = (profileId: string) => {
+    logger.info('切换编辑身份', { profileId });
+    setSelectedProfileId(profileId);
+  };
+
+  // 身份列表或域名规则变化时保存
+  const handleProfileStoreChange = async (store: ProfileStore) => {
+    try {
+      const savedStore = await saveProfileStore(store);
+      setProfileStore(savedStore);
+
+      // 正在编辑的身份被删除时切换到默认身份
+      if (!savedStore.profiles.some(p => p.id === selectedProfileId)) {
+        setSelectedProfileId(savedStore.defaultProfileId);
+      }
+    } catch (error) {
+      logger.error('保存身份配置时出错', error);
+      setSaveError(error instanceof Error ? error.message : '保存失败，请稍后重试');
     }
   };
 
@@ -196,6 +245,14 @@ const SettingsPage: React.FC = () => {
               onEmailChange={(e) => setEmail(e.target.value)}
               onUrlChange={(e) => setUrl(e.target.value)}
               onSaveOrChange={handleSaveOrChange}
+              customFields={customFields}
+              onCustomFieldsChange={setCustomFields}
+              formPreferences={formPreferences}
+              onFormPreferencesChange={setFormPreferences}
+              profileStore={profileStore}
+              selectedProfileId={selectedProfileId}
+              onSelectProfile={handleSelectProfile}
+              onProfileStoreChange={handleProfileStoreChange}
             />
           )}
 
@@ -221,6 +278,18 @@ const SettingsPage: React.FC = () => {
           <WeChatOfficialAccount />
         </Box>
       </Box>
+
+      {/* 读取或保存身份失败提示 */}
+      <Snackbar
+        open={!!saveError}
+        autoHideDuration={6000}
+        onClose={() => setSaveError('')}
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+      >
+        <Alert onClose={() => setSaveError('')} severity="error" sx={{ width: '100%' }}>
+          {saveError}
+        </Alert>
+      </Snackbar>
     </>
   );
 };
@@ -0,0 +1,199 @@
+/**
+ * @description  站点规则管理组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       SiteRecipeManager
+ *
+ * 功能说明：
+ * - 为字段名被混淆的网站配置 CSS 选择器到字段类型的映射
+ * - 选择器支持用 >>> 穿透 Shadow DOM，例如 waline-comment >>> input.wl-nick
+ * - 展示随关键字源同步的官方规则数量
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Box, Typography, Button, TextField, Chip, Paper, Autocomplete } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { logger } from '../../utils/logger';
+import { sendRuntimeMessage } from '../../utils/storageUtils';
+import { getKeywordSets } from '../../utils/keywordService';
+import { RecipeStatus, SiteRecipe } from '../../utils/recipeService';
+
+/**
+ * @description: 站点规则管理组件的属性类型定义
+ * @interface SiteRecipeManagerProps
+ * @param showMessage 显示提示消息的回调
+ */
+interface SiteRecipeManagerProps {
+  showMessage: (severity: 'error' | 'info' | 'success' | 'warning', message: string) => void;
+}
+
+/**
+ * @description: 站点规则管理组件
+ * @function SiteRecipeManager
+ * @param param0 {SiteRecipeManagerProps}
+ * @returns {JSX.Element}
+ */
+const SiteRecipeManager: React.FC<SiteRecipeManagerProps> = ({ showMessage }) => {
+  const [recipeStatus, setRecipeStatus] = useState<RecipeStatus | null>(null);
+  const [fieldTypes, setFieldTypes] = useState<string[]>([]);
+  const [newDomain, setNewDomain] = useState('');
+  const [newSelector, setNewSelector] = useState('');
+  const [newFieldType, setNewFieldType] = useState('');
+
+  useEffect(() => {
+    loadRecipeStatus();
+    getKeywordSets()
+      .then(keywordSets => setFieldTypes(Object.keys(keywordSets)))
+      .catch(error => logger.error('加载关键字字段类型失败', error));
+  }, []);
+
+  // 加载站点规则
+  const loadRecipeStatus = async () => {
+    try {
+      const response = await sendRuntimeMessage({ action: 'getRecipeStatus' });
+      if (response.success) {
+        setRecipeStatus(response.data);
+      } else {
+        showMessage('error', response.error || '获取站点规则失败');
+      }
+    } catch (error) {
+      logger.error('加载站点规则失败', error);
+      showMessage('error', '加载站点规则时发生错误');
+    }
+  };
+
+  // 保存用户站点规则
+  const saveUserRecipes = async (userRecipes: SiteRecipe[]) => {
+    try {
+      const response = await sendRuntimeMessage({
+        action: 'updateUserRecipes',
+        data: userRecipes
+      });
+
+      if (response.success) {
+        setRecipeStatus(prev => prev ? { ...prev, userRecipes } : null);
+        showMessage('success', '站点规则已更新');
+      } else {
+        showMessage('error', response.error || '更新站点规则失败');
+      }
+    } catch (error) {
+      logger.error('更新站点规则失败', error);
+      showMessage('error', '更新站点规则时发生错误');
+    }
+  };
+
+  // 添加字段映射，同一域名的映射合并到一条规则中
+  const handleAddField = async () => {
+    const domain = newDomain.trim().toLowerCase();
+    const selector = newSelector.trim();
+    const fieldType = newFieldType.trim();
+    if (!domain || !selector || !fieldType) {
+      showMessage('warning', '请填写域名、选择器和字段类型');
+      return;
+    }
+
+    const userRecipes = recipeStatus?.userRecipes || [];
+    const existing = userRecipes.find(recipe => recipe.domain === domain);
+    if (existing?.fields.some(field => field.selector === selector)) {
+      showMessage('warning', '该选择器已存在于此域名的规则中');
+      return;
+    }
+
+    const updatedRecipes = existing
+      ? userRecipes.map(recipe => recipe.domain === domain
+        ? { ...recipe, fields: [...recipe.fields, { selector, fieldType }] }
+        : recipe)
+      : [...userRecipes, { domain, fields: [{ selector, fieldType }] }];
+
+    await saveUserRecipes(updatedRecipes);
+    setNewSelector('');
+  };
+
+  // 删除字段映射，规则中没有映射时一并删除该规则
+  const handleRemoveField = async (domain: string, selector: string) => {
+    const updatedRecipes = (recipeStatus?.userRecipes || [])
+      .map(recipe => recipe.domain === domain
+        ? { ...recipe, fields: recipe.fields.filter(field => field.selector !== selector) }
+        : recipe)
+      .filter(recipe => recipe.fields.length > 0);
+    await saveUserRecipes(updatedRecipes);
+  };
+
+  const userRecipes = recipeStatus?.userRecipes || [];
+
+  return (
+    <Paper sx={{ p: 2 }} elevation={0}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        官方规则：{recipeStatus?.officialRecipes.length || 0} 个站点（随关键字源同步）
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label="域名"
+          value={newDomain}
+          onChange={(e) => setNewDomain(e.target.value)}
+          placeholder="如 blog.example.com 或 *.example.com"
+          sx={{ flex: '1 1 180px' }}
+        />
+        <TextField
+          size="small"
+          label="选择器"
+          value={newSelector}
+          onChange={(e) => setNewSelector(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleAddField()}
+          placeholder="如 #author 或 waline-comment >>> input.wl-nick"
+          sx={{ flex: '2 1 240px' }}
+        />
+        <Autocomplete
+          freeSolo
+          size="small"
+          options={fieldTypes}
+          inputValue={newFieldType}
+          onInputChange={(_e, value) => setNewFieldType(value)}
+          renderInput={(params) => <TextField {...params} label="字段类型" />}
+          sx={{ flex: '1 1 120px' }}
+        />
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={handleAddField}
+          sx={{ background: 'linear-gradient(to right, #007bff, #00d4ff)' }}
+          size="small"
+        >
+          添加
+        </Button>
+      </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        命中规则的输入框直接按指定字段类型填充，不再参与关键字匹配；使用 &gt;&gt;&gt; 进入元素的 Shadow DOM
+      </Typography>
+
+      {userRecipes.map(recipe => (
+        <Box key={recipe.domain} sx={{ mb: 1 }}>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>{recipe.domain}</Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 0.5 }}>
+            {recipe.fields.map(field => (
+              <Chip
+                key={field.selector}
+                label={`${field.selector} → ${field.fieldType}`}
+                size="small"
+                onDelete={() => handleRemoveField(recipe.domain, field.selector)}
+                deleteIcon={<DeleteIcon fontSize="small" />}
+                sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+              />
+            ))}
+          </Box>
+        </Box>
+      ))}
+    </Paper>
+  );
+};
+
+export default SiteRecipeManager;
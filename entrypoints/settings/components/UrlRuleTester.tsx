@@ -0,0 +1,95 @@
+/**
+ * @description  网址规则测试组件
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       UrlRuleTester
+ *
+ * 功能说明：
+ * - 输入网址，按当前的填充策略检查是否允许填充
+ * - 显示做出决定的名单和命中的规则，便于调试路径、匹配模式和正则表达式规则
+ */
+
+import React, { useState } from 'react';
+import { Box, Typography, Button, TextField, Paper, Alert } from '@mui/material';
+import { logger } from '../../utils/logger';
+import {
+  DomainCheckResult,
+  POLICY_LIST_LABELS,
+  checkDomainInBlacklistFromBackground
+} from '../../utils/blacklistService';
+import { toPolicyUrl } from '../../utils/urlPatternRules';
+
+/**
+ * @description: 网址规则测试组件的属性类型定义
+ * @interface UrlRuleTesterProps
+ * @param showMessage 显示提示消息的回调
+ */
+interface UrlRuleTesterProps {
+  showMessage: (severity: 'error' | 'info' | 'success' | 'warning', message: string) => void;
+}
+
+/**
+ * @description: 网址规则测试组件
+ * @function UrlRuleTester
+ * @param param0 {UrlRuleTesterProps}
+ * @returns {JSX.Element}
+ */
+const UrlRuleTester: React.FC<UrlRuleTesterProps> = ({ showMessage }) => {
+  const [testUrl, setTestUrl] = useState('');
+  const [result, setResult] = useState<DomainCheckResult | null>(null);
+
+  // 检查输入的网址
+  const handleTest = async () => {
+    if (!toPolicyUrl(testUrl)) {
+      showMessage('warning', '请输入有效的网址，如 https://example.com/admin/login');
+      return;
+    }
+
+    try {
+      setResult(await checkDomainInBlacklistFromBackground(testUrl.trim()));
+    } catch (error) {
+      logger.error('测试网址规则失败', error);
+      showMessage('error', '测试失败，请稍后重试');
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2 }} elevation={0}>
+      <Typography variant="subtitle1" gutterBottom>
+        规则测试
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 2, mb: 1, alignItems: 'flex-start' }}>
+        <TextField
+          size="small"
+          label="测试网址"
+          value={testUrl}
+          onChange={(e) => setTestUrl(e.target.value)}
+          placeholder="输入完整网址，如 https://blog.example.com/posts/hello"
+          onKeyPress={(e) => e.key === 'Enter' && handleTest()}
+          sx={{ flexGrow: 1 }}
+        />
+        <Button variant="outlined" onClick={handleTest} size="small" sx={{ mt: 0.5 }}>
+          测试
+        </Button>
+      </Box>
+      {result && (
+        <Alert severity={result.allowed ? 'success' : 'warning'}>
+          {result.allowed ? '允许填充' : '不填充'}：{result.reason}
+          {result.list && result.rule && (
+            <Box component="span" sx={{ display: 'block', fontFamily: 'monospace', fontSize: '0.75rem' }}>
+              {POLICY_LIST_LABELS[result.list]}：{result.rule}
+            </Box>
+          )}
+        </Alert>
+      )}
+    </Paper>
+  );
+};
+
+export default UrlRuleTester;
@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-04-13
- * @lastModified 2025-04-13
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -16,6 +16,11 @@ import React, { useState } from 'react';
 import { TextField, Button, Box, Typography, Snackbar } from '@mui/material';
 import { Alert } from '@mui/material';
 import { logger } from '../../utils/logger';
+import { ProfileStore, CustomField, BUILTIN_FIELD_TYPES } from '../../utils/profileService';
+import ProfileManager from './ProfileManager';
+import CustomFieldsEditor from './CustomFieldsEditor';
+import FormPreferencesEditor from './FormPreferencesEditor';
+import type { FormPreferences } from '../../utils/formPreferences';
 
 /**
  * @description: 用户信息设置页面组件的属性类型定义
@@ -28,6 +33,14 @@ import { logger } from '../../utils/logger';
  * @param onEmailChange 邮箱输入框变化时的回调
  * @param onUrlChange 网址输入框变化时的回调
  * @param onSaveOrChange 保存/更改 按钮点击时的回调
+ * @param customFields 自定义字段列表
+ * @param onCustomFieldsChange 自定义字段变化时的回调
+ * @param formPreferences 表单选项偏好
+ * @param onFormPreferencesChange 表单选项偏好变化时的回调
+ * @param profileStore 身份存储结构
+ * @param selectedProfileId 当前正在编辑的身份ID
+ * @param onSelectProfile 切换正在编辑的身份时的回调
+ * @param onProfileStoreChange 身份列表或域名规则变化时的回调
  */
 interface UserSettingsPageProps {
   name: string;
@@ -38,12 +51,20 @@ interface UserSettingsPageProps {
   onEmailChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onUrlChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onSaveOrChange: () => void;
+  customFields: CustomField[];
+  onCustomFieldsChange: (fields: CustomField[]) => void;
+  formPreferences: FormPreferences;
+  onFormPreferencesChange: (preferences: FormPreferences) => void;
+  profileStore: ProfileStore | null;
+  selectedProfileId: string;
+  onSelectProfile: (profileId: string) => void;
+  onProfileStoreChange: (store: ProfileStore) => Promise<void>;
 }
 
 /**
  * @description: 
  * 
- *   该组件用于展示和编辑用户的基本信息，包括昵称、邮箱和网址。
+ *   该组件用于管理多套身份，并展示和编辑当前身份的基本信息，包括昵称、邮箱和网址。
  *   提供保存或更改功能，并通过 Snackbar 提示用户操作结果。
  * 
  * @function UserSettingsPage
@@ -59,6 +80,14 @@ const UserSettingsPage: React.FC<UserSettingsPageProps> = ({
   onEmailChange,
   onUrlChange,
   onSaveOrChange,
+  customFields,
+  onCustomFieldsChange,
+  formPreferences,
+  onFormPreferencesChange,
+  profileStore,
+  selectedProfileId,
+  onSelectProfile,
+  onProfileStoreChange,
 }) => {
   // Snackbar 控制显示
   const [openSnackbar, setOpenSnackbar] = useState(false); // 控制 Snackbar 是否显示
@@ -89,6 +118,22 @@ const UserSettingsPage: React.FC<UserSettingsPageProps> = ({
       }
     ];
 
+    // 自定义字段验证
+    customFields.forEach(field => {
+      validations.push(
+        {
+          isValid: !!field.fieldType,
+          message: `请填写自定义字段「${field.label || '未命名'}」的字段类型!`,
+          field: 'customFields'
+        },
+        {
+          isValid: !BUILTIN_FIELD_TYPES.includes(field.fieldType),
+          message: `字段类型 ${field.fieldType} 为内置字段，请直接填写上方对应的输入框!`,
+          field: 'customFields'
+        }
+      );
+    });
+
     // 执行验证
     for (const validation of validations) {
       // 如果需要跳过且字段为空，继续下一个验证
@@ -116,8 +161,20 @@ const UserSettingsPage: React.FC<UserSettingsPageProps> = ({
 
   return (
     <Box sx={{ mt: 3, display: 'flex', justifyContent: 'center' }}>
-      <Box sx={{ width: '100%', maxWidth: 400 }}>
+      <Box sx={{ width: '100%', maxWidth: 560 }}>
         <Typography variant="h6" mb={2}>我的信息</Typography>
+        {/* 身份管理 */}
+        {profileStore && (
+          <ProfileManager
+            store={profileStore}
+            selectedProfileId={selectedProfileId}
+            onSelectProfile={onSelectProfile}
+            onStoreChange={onProfileStoreChange}
+          />
+        )}
+        <Typography variant="subtitle1">
+          {profileStore?.profiles.find(p => p.id === selectedProfileId)?.profileName || '身份信息'}
+        </Typography>
         {/* 昵称输入框 */}
         <TextField
           label="昵称"
@@ -145,6 +202,18 @@ const UserSettingsPage: React.FC<UserSettingsPageProps> = ({
           margin="normal"
           disabled={!editing}
         />
+        {/* 自定义字段 */}
+        <CustomFieldsEditor
+          fields={customFields}
+          editing={editing}
+          onChange={onCustomFieldsChange}
+        />
+        {/* 表单选项偏好 */}
+        <FormPreferencesEditor
+          preferences={formPreferences}
+          editing={editing}
+          onChange={onFormPreferencesChange}
+        />
         {/* 保存/更改 按钮 */}
         <Button
           variant="contained"
@@ -0,0 +1,166 @@
+/**
+ * @description  autocomplete 属性解析，按 WHATWG 自动填充规范解析标记并映射为 EasyFill 字段类型
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/autocompleteParser
+ *
+ * 规范格式：[section-*] [shipping|billing] [home|work|mobile|fax|pager] 字段名 [webauthn]
+ * 参考：https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#autofill
+ */
+
+// 地址类型前缀
+const ADDRESS_HINTS = ['shipping', 'billing'];
+
+// 联系方式类型前缀，只能用于联系类字段
+const CONTACT_HINTS = ['home', 'work', 'mobile', 'fax', 'pager'];
+
+// 普通字段名
+const FIELD_NAMES = [
+  'name', 'honorific-prefix', 'given-name', 'additional-name', 'family-name', 'honorific-suffix',
+  'nickname', 'username', 'new-password', 'current-password', 'one-time-code',
+  'organization-title', 'organization', 'street-address',
+  'address-line1', 'address-line2', 'address-line3',
+  'address-level4', 'address-level3', 'address-level2', 'address-level1',
+  'country', 'country-name', 'postal-code',
+  'cc-name', 'cc-given-name', 'cc-additional-name', 'cc-family-name', 'cc-number',
+  'cc-exp', 'cc-exp-month', 'cc-exp-year', 'cc-csc', 'cc-type',
+  'transaction-currency', 'transaction-amount', 'language',
+  'bday', 'bday-day', 'bday-month', 'bday-year', 'sex', 'url', 'photo'
+];
+
+// 联系类字段名，可以带联系方式类型前缀
+const CONTACT_FIELD_NAMES = [
+  'tel', 'tel-country-code', 'tel-national', 'tel-area-code', 'tel-local',
+  'tel-local-prefix', 'tel-local-suffix', 'tel-extension', 'email', 'impp'
+];
+
+// 凭据类字段名，EasyFill 永远不会填充这些字段
+const CREDENTIAL_FIELD_NAMES = ['new-password', 'current-password', 'one-time-code'];
+
+// 规范字段名到 EasyFill 字段类型的映射
+const FIELD_NAME_TO_FIELD_TYPE: Record<string, string> = {
+  'name': 'name',
+  'nickname': 'name',
+  'username': 'name',
+  'email': 'email',
+  'url': 'url',
+  'tel': 'phone',
+  'tel-national': 'phone',
+  'organization': 'organization'
+};
+
+/**
+ * @description: autocomplete 解析结果接口
+ * @interface AutocompleteInfo
+ * @property {string} raw - 原始属性值
+ * @property {boolean} valid - 是否符合规范
+ * @property {'on' | 'off' | null} state - 单独使用 on/off 时的开关状态
+ * @property {string | null} section - section-* 分组名
+ * @property {string | null} addressHint - shipping 或 billing
+ * @property {string | null} contactHint - home、work、mobile、fax 或 pager
+ * @property {string | null} fieldName - 规范字段名
+ * @property {boolean} webauthn - 是否带有 webauthn 标记
+ * @property {string | null} fieldType - 映射后的 EasyFill 字段类型，无法映射时为 null
+ * @property {boolean} isCredential - 是否为密码、验证码等凭据字段
+ */
+export interface AutocompleteInfo {
+  raw: string;
+  valid: boolean;
+  state: 'on' | 'off' | null;
+  section: string | null;
+  addressHint: string | null;
+  contactHint: string | null;
+  fieldName: string | null;
+  webauthn: boolean;
+  fieldType: string | null;
+  isCredential: boolean;
+}
+
+/**
+ * @description 按 WHATWG 规范解析 autocomplete 属性值
+ * @function parseAutocomplete
+ * @param {string | null} value autocomplete 属性值
+ * @returns {AutocompleteInfo} 解析结果，不符合规范时 valid 为 false
+ */
+export function parseAutocomplete(value: string | null): AutocompleteInfo {
+  const raw = (value || '').trim();
+  const info: AutocompleteInfo = {
+    raw,
+    valid: false,
+    state: null,
+    section: null,
+    addressHint: null,
+    contactHint: null,
+    fieldName: null,
+    webauthn: false,
+    fieldType: null,
+    isCredential: false
+  };
+
+  const tokens = raw.toLowerCase().split(/\s+/).filter(token => token);
+  if (tokens.length === 0) {
+    return info;
+  }
+
+  // on/off 只能单独使用
+  if (tokens.length === 1 && (tokens[0] === 'on' || tokens[0] === 'off')) {
+    info.valid = true;
+    info.state = tokens[0] as 'on' | 'off';
+    return info;
+  }
+
+  // 从后往前解析：可选的 webauthn，然后是必需的字段名
+  if (tokens[tokens.length - 1] === 'webauthn') {
+    info.webauthn = true;
+    tokens.pop();
+  }
+
+  const fieldName = tokens.pop();
+  if (!fieldName) {
+    return info;
+  }
+
+  if (CONTACT_FIELD_NAMES.includes(fieldName)) {
+    if (tokens.length > 0 && CONTACT_HINTS.includes(tokens[tokens.length - 1])) {
+      info.contactHint = tokens.pop() as string;
+    }
+  } else if (!FIELD_NAMES.includes(fieldName)) {
+    return info;
+  }
+
+  if (tokens.length > 0 && ADDRESS_HINTS.includes(tokens[tokens.length - 1])) {
+    info.addressHint = tokens.pop() as string;
+  }
+
+  if (tokens.length > 0 && tokens[tokens.length - 1].startsWith('section-')) {
+    info.section = (tokens.pop() as string).substring('section-'.length);
+  }
+
+  // 还有剩余标记说明不符合规范
+  if (tokens.length > 0) {
+    return info;
+  }
+
+  info.valid = true;
+  info.fieldName = fieldName;
+  info.fieldType = FIELD_NAME_TO_FIELD_TYPE[fieldName] || null;
+  info.isCredential = CREDENTIAL_FIELD_NAMES.includes(fieldName);
+  return info;
+}
+
+/**
+ * @description 判断 autocomplete 是否明确声明了一个 EasyFill 不支持的字段，
+ * 例如 street-address、cc-number，这类输入框不应再通过关键字猜测
+ * @function isForeignAutocomplete
+ * @param {AutocompleteInfo} info 解析结果
+ * @returns {boolean} 是否为不支持的字段
+ */
+export function isForeignAutocomplete(info: AutocompleteInfo): boolean {
+  return info.valid && !!info.fieldName && !info.fieldType;
+}
@@ -0,0 +1,81 @@
+/**
+ * @description  工具栏图标徽章，按标签页展示最近一次的填充结果
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/badgeService
+ */
+
+import { logger } from './logger';
+import type { FillState, FillStatusReport } from './fillStatusService';
+import { getBlockedLabel } from './blacklistService';
+
+// 默认的图标提示文字，与 wxt.config.ts 中 action.default_title 保持一致
+const DEFAULT_TITLE = 'EasyFill';
+
+// 每种填充结果状态对应的徽章文字和颜色，已填充时徽章文字为字段数量
+const BADGE_STYLES: Record<FillState, { text: string, color: string }> = {
+  filled: { text: '', color: '#28a745' },
+  preview: { text: '?', color: '#007bff' },
+  blocked: { text: '×', color: '#dc3545' },
+  skipped: { text: 'off', color: '#6c757d' },
+  noForm: { text: '–', color: '#6c757d' },
+  missingProfile: { text: '!', color: '#fd7e14' }
+};
+
+/**
+ * @description 生成图标提示文字，说明本标签页的填充结果
+ * @function getBadgeTitle
+ * @param {FillStatusReport} report 填充结果
+ * @returns {string} 提示文字
+ */
+function getBadgeTitle(report: FillStatusReport): string {
+  switch (report.state) {
+    case 'filled':
+      return `${DEFAULT_TITLE}：已填充 ${report.fieldsFilled} 个字段`;
+    case 'preview':
+      return `${DEFAULT_TITLE}：已显示填充预览，等待确认`;
+    case 'blocked':
+      return `${DEFAULT_TITLE}：${report.domain} ${getBlockedLabel(report.list)}${report.reason ? `（${report.reason}）` : ''}`;
+    case 'skipped':
+      return `${DEFAULT_TITLE}：已选择不在 ${report.domain} 填充`;
+    case 'noForm':
+      return `${DEFAULT_TITLE}：当前页面没有找到可填充的输入框`;
+    case 'missingProfile':
+      return `${DEFAULT_TITLE}：${report.reason || '缺少可用的身份信息'}，请在设置中完善`;
+    default:
+      return DEFAULT_TITLE;
+  }
+}
+
+/**
+ * @description 按填充结果更新标签页的图标徽章和提示文字，没有结果时恢复默认
+ * @function updateTabBadge
+ * @param {number} tabId 标签页ID
+ * @param {FillStatusReport | null} report 汇总后的填充结果
+ * @returns {Promise<void>}
+ */
+export async function updateTabBadge(tabId: number, report: FillStatusReport | null): Promise<void> {
+  try {
+    if (!report) {
+      await chrome.action.setBadgeText({ tabId, text: '' });
+      await chrome.action.setTitle({ tabId, title: DEFAULT_TITLE });
+      return;
+    }
+
+    const style = BADGE_STYLES[report.state];
+    const text = report.state === 'filled' ? String(report.fieldsFilled) : style.text;
+
+    await chrome.action.setBadgeBackgroundColor({ tabId, color: style.color });
+    await chrome.action.setBadgeText({ tabId, text });
+    await chrome.action.setTitle({ tabId, title: getBadgeTitle(report) });
+  } catch (error) {
+    // 标签页在更新前被关闭时会走到这里
+    logger.warn('更新图标徽章失败', { tabId, error });
+  }
+}
@@ -1,9 +1,9 @@
 /**
- * @description 黑名单处理，用于处理黑名单的获取、缓存、同步和域名检查等操作
+ * @description 黑名单处理，用于处理黑名单、白名单的获取、缓存、同步和域名检查等操作
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-09-16
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -20,6 +20,10 @@ import {
   chromeStorageRemove,
   CacheConfig
 } from './storageUtils';
+import { parseUrlRule, normalizeUrlRule, toPolicyUrl } from './urlPatternRules';
+import { getPublicSuffixList, isPublicSuffix, onPublicSuffixListChanged } from './publicSuffix';
+import { compileRuleList, findCompiledMatch, type CompiledRuleList } from './policyMatcher';
+import { PRIVATE_NETWORK_RULES } from './ipRules';
 
 // 存储键名常量
 const STORAGE_KEYS = {
@@ -30,9 +34,22 @@ const STORAGE_KEYS = {
   BLACKLIST_LAST_SYNC: 'easyfill_blacklist_last_sync',
   BLACKLIST_ETAG: 'easyfill_blacklist_etag',
   BLACKLIST_LAST_MODIFIED: 'easyfill_blacklist_last_modified',
-  BLACKLIST_CACHE: 'easyfill_blacklist_cache'
+  BLACKLIST_CACHE: 'easyfill_blacklist_cache',
+  POLICY_MODE: 'easyfill_policy_mode',
+  USER_ALLOWLIST: 'easyfill_user_allowlist',
+  BLOCK_PRIVATE_NETWORK: 'easyfill_block_private_network'
 };
 
+// 影响检查结果的存储键，变化后重新编译名单规则
+const POLICY_STORAGE_KEYS = [
+  STORAGE_KEYS.BLACKLIST_ENABLED,
+  STORAGE_KEYS.OFFICIAL_BLACKLIST,
+  STORAGE_KEYS.USER_BLACKLIST,
+  STORAGE_KEYS.POLICY_MODE,
+  STORAGE_KEYS.USER_ALLOWLIST,
+  STORAGE_KEYS.BLOCK_PRIVATE_NETWORK
+];
+
 // 缓存配置
 const BLACKLIST_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 小时
 
@@ -43,6 +60,40 @@ const BLACKLIST_CACHE_CONFIG: CacheConfig = {
   validator: (data: any) => Array.isArray(data)
 };
 
+/**
+ * @description: 填充策略模式
+ * - blacklist：除黑名单中的域名外都允许填充
+ * - allowlist：只在白名单中的域名填充，黑名单不生效
+ * - both：只在白名单中的域名填充，同时应用黑名单；两个名单都命中时范围更小（更具体）的规则优先，范围相同时黑名单优先
+ * @typedef {string} PolicyMode
+ */
+export type PolicyMode = 'blacklist' | 'allowlist' | 'both';
+
+/**
+ * @description: 做出决定的名单
+ * @typedef {string} PolicyListName
+ */
+export type PolicyListName = 'officialBlacklist' | 'userBlacklist' | 'userAllowlist' | 'privateNetwork';
+
+// 名单的显示名称
+export const POLICY_LIST_LABELS: Record<PolicyListName, string> = {
+  officialBlacklist: '官方黑名单',
+  userBlacklist: '自定义黑名单',
+  userAllowlist: '白名单',
+  privateNetwork: '内网地址'
+};
+
+/**
+ * @description 获取不允许填充时的状态说明：命中黑名单或内网地址时说明是哪个名单，
+ * 否则是白名单模式下网址不在白名单中
+ * @function getBlockedLabel
+ * @param {PolicyListName} [list] 做出决定的名单
+ * @returns {string} 状态说明
+ */
+export function getBlockedLabel(list?: PolicyListName): string {
+  return list && list !== 'userAllowlist' ? `已被${POLICY_LIST_LABELS[list]}拦截` : '不在白名单中';
+}
+
 /**
  * @description: 黑名单状态接口
  * @interface BlacklistStatus
@@ -51,6 +102,9 @@ const BLACKLIST_CACHE_CONFIG: CacheConfig = {
  * @property {string[]} officialBlacklist - 官方黑名单域名列表
  * @property {string[]} userBlacklist - 用户自定义黑名单域名列表
  * @property {number} lastSync - 最后同步时间戳
+ * @property {PolicyMode} policyMode - 填充策略模式，默认为黑名单模式
+ * @property {string[]} userAllowlist - 用户白名单域名列表
+ * @property {boolean} blockPrivateNetwork - 是否在内网、本机地址上停用填充，与黑名单一同生效
  */
 export interface BlacklistStatus {
   blacklistEnabled: boolean;
@@ -58,6 +112,9 @@ export interface BlacklistStatus {
   officialBlacklist: string[];
   userBlacklist: string[];
   lastSync: number;
+  policyMode: PolicyMode;
+  userAllowlist: string[];
+  blockPrivateNetwork: boolean;
 }
 
 /**
@@ -73,11 +130,30 @@ export interface BlacklistSyncResult {
  * @description: 域名检查结果接口
  * @interface DomainCheckResult
  * @property {boolean} allowed - 是否允许在该域名上进行自动填充
- * @property {string} reason - 检查结果的原因说明
+ * @property {string} reason - 检查结果的原因说明，包含做出决定的名单和规则
+ * @property {PolicyListName} [list] - 做出决定的名单，没有规则命中时为空
+ * @property {string} [rule] - 命中的规则
  */
 export interface DomainCheckResult {
   allowed: boolean;
   reason: string;
+  list?: PolicyListName;
+  rule?: string;
+}
+
+/**
+ * @description 解析规则列表文本，每行一条规则，过滤空行和 # 或 // 开头的注释行，除正则表达式规则外统一转为小写。
+ * 用于官方黑名单以及黑名单、白名单的导入
+ * @function parseDomainListText
+ * @param {string} text 文本内容
+ * @returns {string[]} 域名列表
+ */
+export function parseDomainListText(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !line.startsWith('//'))
+    .map(line => normalizeUrlRule(line));
 }
 
 /**
@@ -92,7 +168,10 @@ export async function getBlacklistStatus(): Promise<BlacklistStatus> {
       STORAGE_KEYS.BLACKLIST_URL,
       STORAGE_KEYS.OFFICIAL_BLACKLIST,
       STORAGE_KEYS.USER_BLACKLIST,
-      STORAGE_KEYS.BLACKLIST_LAST_SYNC
+      STORAGE_KEYS.BLACKLIST_LAST_SYNC,
+      STORAGE_KEYS.POLICY_MODE,
+      STORAGE_KEYS.USER_ALLOWLIST,
+      STORAGE_KEYS.BLOCK_PRIVATE_NETWORK
     ]);
 
     const status: BlacklistStatus = {
@@ -100,7 +179,10 @@ export async function getBlacklistStatus(): Promise<BlacklistStatus> {
       blacklistUrl: result[STORAGE_KEYS.BLACKLIST_URL] || 'https://lhasa-1253887673.cos.ap-shanghai.myqcloud.com/EasyFill/IPblacklist.txt',
       officialBlacklist: result[STORAGE_KEYS.OFFICIAL_BLACKLIST] || [],
       userBlacklist: result[STORAGE_KEYS.USER_BLACKLIST] || [],
-      lastSync: result[STORAGE_KEYS.BLACKLIST_LAST_SYNC] || 0
+      lastSync: result[STORAGE_KEYS.BLACKLIST_LAST_SYNC] || 0,
+      policyMode: result[STORAGE_KEYS.POLICY_MODE] || 'blacklist',
+      userAllowlist: result[STORAGE_KEYS.USER_ALLOWLIST] || [],
+      blockPrivateNetwork: result[STORAGE_KEYS.BLOCK_PRIVATE_NETWORK] || false
     };
     return status;
   } catch (error) {
@@ -134,6 +216,15 @@ export async function updateBlacklistSettings(settings: Partial<BlacklistStatus>
     if (settings.lastSync !== undefined) {
       updateData[STORAGE_KEYS.BLACKLIST_LAST_SYNC] = settings.lastSync;
     }
+    if (settings.policyMode !== undefined) {
+      updateData[STORAGE_KEYS.POLICY_MODE] = settings.policyMode;
+    }
+    if (settings.userAllowlist !== undefined) {
+      updateData[STORAGE_KEYS.USER_ALLOWLIST] = settings.userAllowlist;
+    }
+    if (settings.blockPrivateNetwork !== undefined) {
+      updateData[STORAGE_KEYS.BLOCK_PRIVATE_NETWORK] = settings.blockPrivateNetwork;
+    }
 
     if (Object.keys(updateData).length === 0) {
       logger.info('没有需要更新的黑名单设置');
@@ -142,6 +233,11 @@ export async function updateBlacklistSettings(settings: Partial<BlacklistStatus>
 
     await chromeStorageSet(updateData);
     logger.info('黑名单设置已更新', settings);
+
+    // 存储变化事件是异步的，立即重新编译，避免紧接着的检查使用旧规则
+    if (compiledPolicy && POLICY_STORAGE_KEYS.some(key => key in updateData)) {
+      rebuildPolicyMatcher();
+    }
   } catch (error) {
     logger.error('更新黑名单设置时发生异常', error);
     throw error;
@@ -319,12 +415,12 @@ export async function syncOfficialBlacklist(forceSync: boolean = false): Promise
       let blacklist: string[] = [];
       try {
         const textContent = await blacklistResponse.text();
-        // 解析txt文件，每行一个域名，过滤空行和注释行
-        blacklist = textContent
-          .split('\n')
-          .map(line => line.trim())
-          .filter(line => line && !line.startsWith('#') && !line.startsWith('//'))
-          .map(line => line.toLowerCase()); // 转换为小写以便匹配
+        // 解析txt文件，每行一条规则，过滤空行、注释行和无法解析的规则（如格式错误的 IP 网段）
+        const rules = parseDomainListText(textContent);
+        blacklist = rules.filter(rule => parseUrlRule(rule));
+        if (blacklist.length < rules.length) {
+          logger.warn('官方黑名单中有无法解析的规则，已跳过', rules.filter(rule => !parseUrlRule(rule)));
+        }
       } catch (parseError: any) {
         logger.error('解析黑名单文本数据失败', { error: parseError.message, url: blacklistUrl });
         throw new Error('无法解析服务器返回的黑名单数据');
@@ -371,44 +467,232 @@ export async function syncOfficialBlacklist(forceSync: boolean = false): Promise
 }
 
 /**
- * @description 检查域名是否在黑名单中，支持通配符匹配和精确匹配
+ * @description 通配符域名匹配，*.baidu.com 同时匹配 baidu.com 本身及其所有子域名
+ * @function matchWildcardDomain
+ * @param {string} domain 已转为小写的待检查域名
+ * @param {string} pattern 以 *. 开头的小写通配符规则
+ * @returns {boolean} 是否匹配
+ */
+export function matchWildcardDomain(domain: string, pattern: string): boolean {
+  const baseDomain = pattern.substring(2);
+  // 必须以 "*.baidu.com" 结尾，或者完全等于 "baidu.com"
+  return domain.endsWith('.' + baseDomain) || domain === baseDomain;
+}
+
+/**
+ * @description: 命中的名单规则
+ * @interface PolicyMatch
+ * @property {PolicyListName} list - 规则所在的名单
+ * @property {string} rule - 规则
+ * @property {number} specificity - 规则的具体程度，数值越大范围越小
+ */
+interface PolicyMatch {
+  list: PolicyListName;
+  rule: string;
+  specificity: number;
+}
+
+/**
+ * @description: 编译后的填充策略
+ * @interface CompiledPolicy
+ * @property {PolicyMode} policyMode - 填充策略模式
+ * @property {Record<PolicyListName, CompiledRuleList>} lists - 各名单编译后的查找表，当前不生效的名单为空
+ */
+interface CompiledPolicy {
+  policyMode: PolicyMode;
+  lists: Record<PolicyListName, CompiledRuleList>;
+}
+
+// 编译后的填充策略，名单设置或公共后缀列表变化后重新编译
+let compiledPolicy: Promise<CompiledPolicy> | null = null;
+
+// 是否已监听名单设置的变化
+let policyWatcherRegistered = false;
+
+/**
+ * @description 读取名单设置和公共后缀列表，编译各名单的规则
+ * @function compilePolicy
+ * @returns {Promise<CompiledPolicy>} 编译后的填充策略
+ */
+async function compilePolicy(): Promise<CompiledPolicy> {
+  const [status, suffixList] = await Promise.all([getBlacklistStatus(), getPublicSuffixList()]);
+  const isSuffix = (hostname: string) => isPublicSuffix(hostname, suffixList);
+
+  // 黑名单在黑名单模式和同时使用模式下生效，白名单在白名单模式和同时使用模式下生效
+  const blacklistActive = status.policyMode !== 'allowlist' && status.blacklistEnabled;
+  const allowlistActive = status.policyMode !== 'blacklist';
+  const policy: CompiledPolicy = {
+    policyMode: status.policyMode,
+    lists: {
+      userBlacklist: compileRuleList(blacklistActive ? status.userBlacklist : [], isSuffix),
+      officialBlacklist: compileRuleList(blacklistActive ? status.officialBlacklist : [], isSuffix),
+      privateNetwork: compileRuleList(blacklistActive && status.blockPrivateNetwork ? PRIVATE_NETWORK_RULES : [], isSuffix),
+      userAllowlist: compileRuleList(allowlistActive ? status.userAllowlist : [], isSuffix)
+    }
+  };
+
+  logger.info('名单规则已编译', {
+    policyMode: policy.policyMode,
+    officialBlacklist: policy.lists.officialBlacklist.size,
+    userBlacklist: policy.lists.userBlacklist.size,
+    userAllowlist: policy.lists.userAllowlist.size
+  });
+  return policy;
+}
+
+/**
+ * @description 重新编译名单规则，编译失败时下次检查再重试
+ * @function rebuildPolicyMatcher
+ */
+function rebuildPolicyMatcher(): void {
+  const pending = compilePolicy();
+  compiledPolicy = pending;
+  pending.catch(error => {
+    logger.error('编译名单规则失败', error);
+    if (compiledPolicy === pending) {
+      compiledPolicy = null;
+    }
+  });
+}
+
+/**
+ * @description 编译名单规则并监听名单设置和公共后缀列表的变化，变化后重新编译。
+ * 后台脚本启动时调用，首次检查网址时也会自动调用
+ * @function initPolicyMatcher
+ */
+export function initPolicyMatcher(): void {
+  if (!policyWatcherRegistered) {
+    policyWatcherRegistered = true;
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && POLICY_STORAGE_KEYS.some(key => changes[key])) {
+        rebuildPolicyMatcher();
+      }
+    });
+    onPublicSuffixListChanged(() => rebuildPolicyMatcher());
+  }
+  if (!compiledPolicy) {
+    rebuildPolicyMatcher();
+  }
+}
+
+/**
+ * @description 在编译后的名单中查找命中网址的规则
+ * @function findPolicyMatch
+ * @param {CompiledPolicy} policy 编译后的填充策略
+ * @param {PolicyListName} list 名单
+ * @param {URL} url 网址
+ * @returns {PolicyMatch | null} 命中的规则，没有命中时返回null
+ */
+function findPolicyMatch(policy: CompiledPolicy, list: PolicyListName, url: URL): PolicyMatch | null {
+  const match = findCompiledMatch(policy.lists[list], url);
+  return match ? { list, rule: match.rule, specificity: match.specificity } : null;
+}
+
+/**
+ * @description 生成命中规则时的检查结果
+ * @function createMatchResult
+ * @param {PolicyMatch} match 命中的规则
+ * @returns {DomainCheckResult} 检查结果
+ */
+function createMatchResult(match: PolicyMatch): DomainCheckResult {
+  const allowed = match.list === 'userAllowlist';
+  return {
+    allowed,
+    reason: `网址命中${POLICY_LIST_LABELS[match.list]}规则 ${match.rule}`,
+    list: match.list,
+    rule: match.rule
+  };
+}
+
+/**
+ * @description 按填充策略检查网址是否允许填充，规则写法见 urlPatternRules，结果说明做出决定的名单和规则。
+ * 只传入域名时按该域名的 https 首页检查，路径规则不会命中。国际化域名按 punycode 形式比较。
+ * 规则预先编译为按域名索引的查找表（见 policyMatcher），检查时不再读取存储和遍历名单
  * @function checkDomainInBlacklist
- * @param {string} domain 要检查的域名
+ * @param {string} target 要检查的完整网址或域名
  * @returns {Promise<DomainCheckResult>} 返回一个包含检查结果的Promise对象，包含allowed和reason字段
  */
-export async function checkDomainInBlacklist(domain: string): Promise<DomainCheckResult> {
+export async function checkDomainInBlacklist(target: string): Promise<DomainCheckResult> {
+  let mode: PolicyMode | null = null;
   try {
-    const status = await getBlacklistStatus();
-    const normalizedDomain = domain.toLowerCase();
-    
-    // 检查黑名单
-    if (status.blacklistEnabled) {
-      const allBlacklist = [...status.officialBlacklist, ...status.userBlacklist];
-      const isInBlacklist = allBlacklist.some(blackDomain => {
-        const normalizedBlackDomain = blackDomain.toLowerCase();
-        
-        // 支持通配符匹配，例如 *.baidu.com
-        if (normalizedBlackDomain.startsWith('*.')) {
-          const baseDomain = normalizedBlackDomain.substring(2);
-          // 必须以 "*.baidu.com" 结尾，或者完全等于 "baidu.com"
-          return normalizedDomain.endsWith('.' + baseDomain) || normalizedDomain === baseDomain;
-        }
-        
-        // 精确匹配或子域名匹配
-        // 例如，黑名单是 baidu.com，那么 a.baidu.com 和 baidu.com 都应该匹配
-        return normalizedDomain === normalizedBlackDomain || normalizedDomain.endsWith('.' + normalizedBlackDomain);
-      });
-      
-      if (isInBlacklist) {
-        return { allowed: false, reason: '域名在黑名单中' };
+    const url = toPolicyUrl(target);
+    if (!url) {
+      return { allowed: true, reason: '无法解析网址，默认允许' };
+    }
+
+    initPolicyMatcher();
+    const policy = await compiledPolicy!;
+    mode = policy.policyMode;
+
+    // 未生效的黑名单编译为空表，范围更小的规则优先，范围相同时按用户规则、官方规则、内网地址的顺序
+    let blockMatch: PolicyMatch | null = null;
+    const blockLists: PolicyListName[] = ['userBlacklist', 'officialBlacklist', 'privateNetwork'];
+    for (const list of blockLists) {
+      const match = findPolicyMatch(policy, list, url);
+      if (match && (!blockMatch || match.specificity > blockMatch.specificity)) {
+        blockMatch = match;
       }
     }
-    
-    return { allowed: true, reason: '域名允许填充' };
+
+    if (mode === 'blacklist') {
+      return blockMatch
+        ? createMatchResult(blockMatch)
+        : { allowed: true, reason: '网址不在黑名单中，允许填充' };
+    }
+
+    const allowMatch = findPolicyMatch(policy, 'userAllowlist', url);
+    if (!allowMatch) {
+      return blockMatch
+        ? createMatchResult(blockMatch)
+        : { allowed: false, reason: '白名单模式下网址不在白名单中' };
+    }
+
+    // 两个名单都命中时范围更小的规则优先，范围相同时黑名单优先
+    if (blockMatch && blockMatch.specificity >= allowMatch.specificity) {
+      return createMatchResult(blockMatch);
+    }
+    return createMatchResult(allowMatch);
   } catch (error: any) {
     logger.error('检查域名黑名单状态失败', error);
-    // 出错时默认允许，避免影响正常使用
-    return { allowed: true, reason: '检查失败，默认允许' };
+    // 黑名单模式下出错时默认允许，避免影响正常使用；启用白名单时只在白名单允许的网站填充，出错时默认不填充
+    if (!mode) {
+      try {
+        const result = await chromeStorageGet([STORAGE_KEYS.POLICY_MODE]);
+        mode = result[STORAGE_KEYS.POLICY_MODE] || 'blacklist';
+      } catch {
+        mode = 'blacklist';
+      }
+    }
+    return mode === 'blacklist'
+      ? { allowed: true, reason: '检查失败，默认允许' }
+      : { allowed: false, reason: '检查失败，白名单模式下默认不填充' };
+  }
+}
+
+/**
+ * @description 检查规则是否涉及公共后缀，返回需要提示用户的警告。
+ * *.github.io 会匹配 github.io 下所有用户的网站；github.io、https://co.uk 这类写法则只匹配公共后缀本身
+ * @function getPublicSuffixWarnings
+ * @param {string[]} rules 要检查的规则
+ * @returns {Promise<string[]>} 警告信息，没有问题时返回空数组
+ */
+export async function getPublicSuffixWarnings(rules: string[]): Promise<string[]> {
+  try {
+    const suffixList = await getPublicSuffixList();
+    const warnings: string[] = [];
+    rules.forEach(rule => {
+      const parsed = parseUrlRule(rule);
+      if (!parsed || parsed.kind !== 'pattern' || parsed.host === '*' || parsed.ipHost || !isPublicSuffix(parsed.host!, suffixList)) {
+        return;
+      }
+      warnings.push(parsed.wildcardHost
+        ? `${rule}：${parsed.host} 是公共后缀，规则会匹配其下所有不同所有者的网站`
+        : `${rule}：${parsed.host} 是公共后缀，规则只匹配其本身，不包含其下的网站`);
+    });
+    return warnings;
+  } catch (error) {
+    logger.error('检查规则的公共后缀失败', error);
+    throw error;
   }
 }
 
@@ -516,9 +800,9 @@ export async function syncOfficialBlacklistFromBackground(): Promise<BlacklistSy
 }
 
 /**
- * @description 通过消息传递从后台脚本检查域名是否在黑名单中
+ * @description 通过消息传递从后台脚本检查网址或域名是否允许填充
  * @function checkDomainInBlacklistFromBackground
- * @param {string} domain 要检查的域名
+ * @param {string} domain 要检查的完整网址或域名
  * @returns {Promise<DomainCheckResult>} 返回一个包含检查结果的Promise对象
  */
 export async function checkDomainInBlacklistFromBackground(domain: string): Promise<DomainCheckResult> {
@@ -548,4 +832,39 @@ export async function checkDomainInBlacklistFromBackground(domain: string): Prom
     logger.error('检查域名黑名单状态请求失败', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * @description 通过消息传递从后台脚本检查规则是否涉及公共后缀
+ * @function getPublicSuffixWarningsFromBackground
+ * @param {string[]} rules 要检查的规则
+ * @returns {Promise<string[]>} 返回一个包含警告信息的Promise对象
+ */
+export async function getPublicSuffixWarningsFromBackground(rules: string[]): Promise<string[]> {
+  try {
+    const response = await new Promise<any>((resolve, reject) => {
+      chrome.runtime.sendMessage(
+        { action: 'getPublicSuffixWarnings', data: { rules } },
+        (response) => {
+          if (chrome.runtime.lastError) {
+            logger.error('通信错误：检查公共后缀失败', chrome.runtime.lastError);
+            reject(new Error(chrome.runtime.lastError.message));
+            return;
+          }
+          resolve(response);
+        }
+      );
+    });
+
+    if (response && response.success) {
+      return response.data;
+    } else {
+      const errorMsg = response?.error || '检查公共后缀失败';
+      logger.error('检查公共后缀失败', { error: errorMsg });
+      throw new Error(errorMsg);
+    }
+  } catch (error) {
+    logger.error('检查公共后缀请求失败', error);
+    throw error;
+  }
+}
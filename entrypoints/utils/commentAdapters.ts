@@ -0,0 +1,210 @@
+/**
+ * @description  评论系统适配器注册表，识别常见博客评论组件并给出其输入框位置
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/commentAdapters
+ *
+ * 新增评论系统时，只需要在 COMMENT_ADAPTERS 中追加一项适配器配置。
+ * 每个适配器通过 fill 按组件监听的事件填充输入框，可编辑区域和其他元素仍交给 valueSetter 的通用逻辑
+ */
+
+import { isFillableElement } from './frameUtils';
+import { fillFieldValue, fillInputValue } from './valueSetter';
+
+/**
+ * @description: 评论组件的识别方式，任意一项命中即认为页面中存在该组件
+ * @interface AdapterDetection
+ * @property {string[]} [elements] - 组件的自定义元素标签名
+ * @property {string[]} [scriptSrc] - 组件脚本地址中包含的片段
+ * @property {string[]} [rootSelectors] - 组件根节点的选择器
+ * @property {string[]} [hostnames] - 组件以独立页面嵌入时所在的域名
+ */
+export interface AdapterDetection {
+  elements?: string[];
+  scriptSrc?: string[];
+  rootSelectors?: string[];
+  hostnames?: string[];
+}
+
+/**
+ * @description: 评论系统适配器接口
+ * @interface CommentAdapter
+ * @property {string} name - 评论系统名称
+ * @property {AdapterDetection} detection - 识别方式
+ * @property {Record<string, string>} fields - 字段类型到输入框选择器的映射
+ * @property {Function} fill - 按组件监听的事件填充输入框，返回值是否保留
+ */
+export interface CommentAdapter {
+  name: string;
+  detection: AdapterDetection;
+  fields: Record<string, string>;
+  fill: (element: Element, value: string) => boolean;
+}
+
+/**
+ * @description 生成按指定事件序列填充的函数，输入框和文本域赋值后只派发组件监听的事件，
+ * 可编辑区域等其他元素按 valueSetter 的通用方式填充
+ * @function fillWithEvents
+ * @param {string[]} events 赋值后依次派发的事件类型
+ * @returns {CommentAdapter['fill']} 适配器的填充函数
+ */
+function fillWithEvents(events: string[]): CommentAdapter['fill'] {
+  return (element, value) => isFillableElement(element)
+    ? fillInputValue(element, value, events)
+    : fillFieldValue(element, value);
+}
+
+// 评论系统适配器注册表
+export const COMMENT_ADAPTERS: CommentAdapter[] = [
+  {
+    // Vue 3 组件，v-model 监听 input 事件
+    name: 'Waline',
+    detection: {
+      elements: ['waline-comment'],
+      scriptSrc: ['waline'],
+      rootSelectors: ['.wl-panel', '[data-waline]']
+    },
+    fields: {
+      name: 'input.wl-nick, input[name="nick"].wl-input',
+      email: 'input.wl-mail, input[name="mail"].wl-input',
+      url: 'input.wl-link, input[name="link"].wl-input',
+      comment: 'textarea.wl-editor'
+    },
+    fill: fillWithEvents(['focus', 'input', 'blur'])
+  },
+  {
+    // 基于 Element UI 的 el-input，input 事件更新 v-model，失焦时保存访客信息
+    name: 'Twikoo',
+    detection: {
+      scriptSrc: ['twikoo'],
+      rootSelectors: ['.twikoo', '.tk-submit']
+    },
+    fields: {
+      name: '.tk-meta-input input[name="nick"]',
+      email: '.tk-meta-input input[name="mail"]',
+      url: '.tk-meta-input input[name="link"]',
+      comment: '.tk-submit .tk-input textarea'
+    },
+    fill: fillWithEvents(['focus', 'input', 'change', 'blur'])
+  },
+  {
+    // 原生实现，监听 input 和 change 事件更新访客信息
+    name: 'Artalk',
+    detection: {
+      scriptSrc: ['artalk'],
+      rootSelectors: ['.artalk', '.atk-main-editor']
+    },
+    fields: {
+      name: '.atk-header input[name="name"], .atk-header input.atk-name',
+      email: '.atk-header input[name="email"], .atk-header input.atk-email',
+      url: '.atk-header input[name="link"], .atk-header input.atk-link',
+      comment: 'textarea.atk-textarea'
+    },
+    fill: fillWithEvents(['input', 'change'])
+  },
+  {
+    // 原生实现，监听 input 事件保存访客信息
+    name: 'Valine',
+    detection: {
+      scriptSrc: ['valine'],
+      rootSelectors: ['.vwrap', '[data-class="v"]']
+    },
+    fields: {
+      name: 'input.vnick',
+      email: 'input.vmail',
+      url: 'input.vlink',
+      comment: 'textarea.veditor'
+    },
+    fill: fillWithEvents(['input', 'change'])
+  },
+  {
+    // Disqus 访客评论表单位于 disqus.com 的嵌入页面中，由 React 渲染，
+    // React 通过原生 input 事件触发 onChange；评论正文为可编辑区域，按通用方式插入文本
+    name: 'Disqus',
+    detection: {
+      hostnames: ['disqus.com']
+    },
+    fields: {
+      name: 'input[name="display_name"]',
+      email: 'input[name="email"]',
+      comment: 'div.textarea[contenteditable]'
+    },
+    fill: fillWithEvents(['focus', 'input', 'blur'])
+  },
+  {
+    // WordPress comment_form() 输出的默认评论表单，随表单提交，只为页面脚本派发 input 和 change 事件
+    name: 'WordPress',
+    detection: {
+      scriptSrc: ['comment-reply'],
+      rootSelectors: ['#commentform', 'form.comment-form']
+    },
+    fields: {
+      name: '#commentform #author, form.comment-form input[name="author"]',
+      email: '#commentform #email, form.comment-form input[name="email"]',
+      url: '#commentform #url, form.comment-form input[name="url"]',
+      comment: '#commentform #comment, form.comment-form textarea[name="comment"]'
+    },
+    fill: fillWithEvents(['input', 'change'])
+  }
+];
+
+/**
+ * @description: 富文本编辑器，编辑区域为 contenteditable，评论系统未被识别时按编辑器识别评论正文输入框
+ * @interface RichEditor
+ * @property {string} name - 编辑器名称
+ * @property {string} selector - 编辑区域的选择器
+ */
+export interface RichEditor {
+  name: string;
+  selector: string;
+}
+
+// 富文本编辑器注册表
+export const RICH_EDITORS: RichEditor[] = [
+  { name: 'Quill', selector: '.ql-editor' },
+  { name: 'TipTap', selector: '.tiptap, .ProseMirror' },
+  { name: 'CodeMirror', selector: '.cm-content' }
+];
+
+/**
+ * @description 判断评论组件是否存在于页面中
+ * @function detectAdapter
+ * @param {CommentAdapter} adapter 适配器
+ * @param {Array<Document | ShadowRoot>} roots 页面中的所有查询根节点，包括 Shadow Root
+ * @returns {boolean} 是否存在
+ */
+export function detectAdapter(adapter: CommentAdapter, roots: Array<Document | ShadowRoot>): boolean {
+  const { elements = [], scriptSrc = [], rootSelectors = [], hostnames = [] } = adapter.detection;
+  const hostname = window.location.hostname.toLowerCase();
+
+  if (hostnames.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+    return true;
+  }
+
+  // 脚本只存在于文档中，同源框架的文档也需要检查
+  const scripts = roots
+    .filter(root => root.nodeType === Node.DOCUMENT_NODE)
+    .flatMap(root => Array.from(root.querySelectorAll('script[src]')));
+  if (scripts.some(script => scriptSrc.some(part => (script.getAttribute('src') || '').toLowerCase().includes(part)))) {
+    return true;
+  }
+
+  const selectors = [...elements, ...rootSelectors];
+  return selectors.length > 0 && roots.some(root => selectors.some(selector => root.querySelector(selector)));
+}
+
+/**
+ * @description 获取页面中存在的所有评论系统适配器
+ * @function detectCommentAdapters
+ * @param {Array<Document | ShadowRoot>} roots 页面中的所有查询根节点，包括 Shadow Root
+ * @returns {CommentAdapter[]} 命中的适配器列表
+ */
+export function detectCommentAdapters(roots: Array<Document | ShadowRoot>): CommentAdapter[] {
+  return COMMENT_ADAPTERS.filter(adapter => detectAdapter(adapter, roots));
+}
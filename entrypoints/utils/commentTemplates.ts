@@ -0,0 +1,183 @@
+/**
+ * @description  评论模板，管理问候语、签名等评论正文模板及其启用的域名
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/commentTemplates
+ *
+ * 评论正文作为 comment 字段类型参与填充：启用模板的域名上，评论框为空时填入模板；
+ * 其他域名可以通过右键菜单手动插入
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet } from './storageUtils';
+import { matchWildcardDomain } from './blacklistService';
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  COMMENT_TEMPLATES: 'easyfill_comment_templates'
+};
+
+// 评论正文的字段类型
+export const COMMENT_FIELD_TYPE = 'comment';
+
+// 识别评论框的内置关键字，只用于 textarea
+export const COMMENT_KEYWORDS = ['comment', 'comments', 'content', 'message', 'veditor', '评论', '留言', '内容'];
+
+// 模板支持的变量及说明
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+  name: '昵称',
+  url: '网址',
+  date: '当前日期',
+  pageTitle: '页面标题',
+  domain: '网站域名'
+};
+
+/**
+ * @description: 评论模板
+ * @interface CommentTemplate
+ * @property {string} id - 模板唯一标识
+ * @property {string} name - 模板名称
+ * @property {string} content - 模板内容，可以包含 {name}、{url} 等变量
+ */
+export interface CommentTemplate {
+  id: string;
+  name: string;
+  content: string;
+}
+
+/**
+ * @description: 评论模板设置
+ * @interface CommentTemplateSettings
+ * @property {CommentTemplate[]} templates - 模板列表
+ * @property {string} activeTemplateId - 当前使用的模板ID
+ * @property {string[]} enabledDomains - 自动填入模板的域名，支持精确域名、通配符（如 *.example.com）和 *（所有网站）
+ */
+export interface CommentTemplateSettings {
+  templates: CommentTemplate[];
+  activeTemplateId: string;
+  enabledDomains: string[];
+}
+
+/**
+ * @description 创建一个新的评论模板
+ * @function createCommentTemplate
+ * @param {string} name 模板名称
+ * @param {string} content 模板内容
+ * @returns {CommentTemplate} 新模板
+ */
+export function createCommentTemplate(name: string, content: string): CommentTemplate {
+  return {
+    id: `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    content
+  };
+}
+
+/**
+ * @description 获取评论模板设置
+ * @function getCommentTemplateSettings
+ * @returns {Promise<CommentTemplateSettings>} 评论模板设置
+ */
+export async function getCommentTemplateSettings(): Promise<CommentTemplateSettings> {
+  try {
+    const result = await chromeStorageGet([STORAGE_KEYS.COMMENT_TEMPLATES]);
+    const stored: Partial<CommentTemplateSettings> = result[STORAGE_KEYS.COMMENT_TEMPLATES] || {};
+    return {
+      templates: Array.isArray(stored.templates) ? stored.templates : [],
+      activeTemplateId: stored.activeTemplateId || '',
+      enabledDomains: Array.isArray(stored.enabledDomains) ? stored.enabledDomains : []
+    };
+  } catch (error) {
+    logger.error('获取评论模板设置失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 保存评论模板设置，当前模板被删除时改用第一个模板
+ * @function saveCommentTemplateSettings
+ * @param {CommentTemplateSettings} settings 评论模板设置
+ * @returns {Promise<CommentTemplateSettings>} 保存后的设置
+ */
+export async function saveCommentTemplateSettings(settings: CommentTemplateSettings): Promise<CommentTemplateSettings> {
+  try {
+    const activeExists = settings.templates.some(template => template.id === settings.activeTemplateId);
+    const normalized: CommentTemplateSettings = {
+      ...settings,
+      activeTemplateId: activeExists ? settings.activeTemplateId : settings.templates[0]?.id || ''
+    };
+    await chromeStorageSet({ [STORAGE_KEYS.COMMENT_TEMPLATES]: normalized });
+    logger.info('评论模板设置已保存', {
+      templateCount: normalized.templates.length,
+      enabledDomains: normalized.enabledDomains
+    });
+    return normalized;
+  } catch (error) {
+    logger.error('保存评论模板设置失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 获取当前使用的模板
+ * @function getActiveTemplate
+ * @param {CommentTemplateSettings} settings 评论模板设置
+ * @returns {CommentTemplate | null} 当前模板，没有模板时返回null
+ */
+export function getActiveTemplate(settings: CommentTemplateSettings): CommentTemplate | null {
+  return settings.templates.find(template => template.id === settings.activeTemplateId)
+    || settings.templates[0]
+    || null;
+}
+
+/**
+ * @description 判断域名是否启用了自动填入评论模板
+ * @function isTemplateEnabledForDomain
+ * @param {CommentTemplateSettings} settings 评论模板设置
+ * @param {string} domain 域名
+ * @returns {boolean} 是否启用
+ */
+export function isTemplateEnabledForDomain(settings: CommentTemplateSettings, domain: string): boolean {
+  const normalizedDomain = domain.toLowerCase();
+  return settings.enabledDomains.some(pattern => {
+    const normalizedPattern = pattern.trim().toLowerCase();
+    if (normalizedPattern === '*') {
+      return true;
+    }
+    if (normalizedPattern.startsWith('*.')) {
+      return matchWildcardDomain(normalizedDomain, normalizedPattern);
+    }
+    return normalizedDomain === normalizedPattern;
+  });
+}
+
+/**
+ * @description 替换模板中的变量，未知变量保持原样
+ * @function renderCommentTemplate
+ * @param {string} content 模板内容
+ * @param {Record<string, string>} variables 变量值
+ * @returns {string} 替换后的文本
+ */
+export function renderCommentTemplate(content: string, variables: Record<string, string>): string {
+  return content.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : match
+  );
+}
+
+/**
+ * @description 生成今天的日期文本，格式为 YYYY-MM-DD
+ * @function formatTemplateDate
+ * @param {Date} date 日期
+ * @returns {string} 日期文本
+ */
+export function formatTemplateDate(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * @description  页面结构索引，一次遍历收集查询根节点、输入框、Shadow Host 和 label 关联
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/domIndex
+ *
+ * 长文章页面和大量评论的页面元素很多，每个填充阶段只遍历一次 DOM，
+ * 之后的字段识别都基于索引在内存中完成
+ */
+
+import { logger } from './logger';
+import { getFrameDocument, isEditableHost } from './frameUtils';
+
+/**
+ * @description: 页面结构索引
+ * @interface DomIndex
+ * @property {Array<Document | ShadowRoot>} roots - 查询根节点：文档、所有 Shadow Root 和同源框架的文档
+ * @property {Element[]} inputs - 所有 input、textarea、select 和可编辑区域（contenteditable），同一根节点内按文档顺序排列
+ * @property {Element[]} shadowHosts - 挂载了 Shadow Root 的元素
+ * @property {Map<Element, string>} labelTexts - 输入框通过 label[for] 关联的 label 文本
+ */
+export interface DomIndex {
+  roots: Array<Document | ShadowRoot>;
+  inputs: Element[];
+  shadowHosts: Element[];
+  labelTexts: Map<Element, string>;
+}
+
+/**
+ * @description 遍历页面建立结构索引。每个根节点只用 TreeWalker 遍历一次，
+ * 遍历中发现的 Shadow Root 和同源框架文档加入队列继续遍历
+ * @function buildDomIndex
+ * @param {Document} scope 遍历起点，默认为当前文档
+ * @returns {DomIndex} 页面结构索引
+ */
+export function buildDomIndex(scope: Document = document): DomIndex {
+  const startTime = performance.now();
+  const index: DomIndex = { roots: [], inputs: [], shadowHosts: [], labelTexts: new Map() };
+  const processedRoots = new WeakSet<Document | ShadowRoot>(); // 避免重复遍历同一个根节点
+  const queue: Array<Document | ShadowRoot> = [scope];
+  let elementCount = 0;
+
+  while (queue.length > 0) {
+    const root = queue.shift()!;
+    if (processedRoots.has(root)) continue;
+    processedRoots.add(root);
+    index.roots.push(root);
+
+    // label[for] 只关联同一根节点内的输入框
+    const labelsFor = new Map<string, string>();
+    const rootInputs: Element[] = [];
+
+    const ownerDocument = root.ownerDocument || (root as Document);
+    const walker = ownerDocument.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+    let node = walker.nextNode() as Element | null;
+    while (node) {
+      elementCount++;
+
+      if (node.tagName === 'INPUT' || node.tagName === 'TEXTAREA' || node.tagName === 'SELECT') {
+        rootInputs.push(node);
+      } else if (node.hasAttribute('contenteditable') && isEditableHost(node)) {
+        rootInputs.push(node);
+      } else if (node.tagName === 'LABEL') {
+        const htmlFor = node.getAttribute('for');
+        if (htmlFor) {
+          const previous = labelsFor.get(htmlFor);
+          labelsFor.set(htmlFor, previous ? `${previous} ${node.textContent || ''}` : node.textContent || '');
+        }
+      }
+
+      const shadowRoot = (node as any).shadowRoot as ShadowRoot | null;
+      if (shadowRoot) {
+        index.shadowHosts.push(node);
+        queue.push(shadowRoot);
+      }
+
+      // 同源框架直接遍历，跨域框架由框架内的内容脚本自行处理
+      const frameDocument = getFrameDocument(node);
+      if (frameDocument) {
+        queue.push(frameDocument);
+      }
+
+      node = walker.nextNode() as Element | null;
+    }
+
+    rootInputs.forEach(input => {
+      index.inputs.push(input);
+      index.labelTexts.set(input, (input.id && labelsFor.get(input.id)) || '');
+    });
+  }
+
+  logger.info('页面结构索引完成', {
+    roots: index.roots.length,
+    elements: elementCount,
+    inputs: index.inputs.length,
+    shadowHosts: index.shadowHosts.length,
+    duration: `${Math.round(performance.now() - startTime)}ms`
+  });
+
+  return index;
+}
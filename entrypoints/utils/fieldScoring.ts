@@ -0,0 +1,459 @@
+/**
+ * @description  字段评分，收集输入框的各类识别信号并为每种字段类型计算置信度
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/fieldScoring
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet } from './storageUtils';
+import { KeywordSets } from './keywordService';
+import { AutocompleteInfo, parseAutocomplete, isForeignAutocomplete } from './autocompleteParser';
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  SCORING_CONFIG: 'easyfill_scoring_config'
+};
+
+// 周边文本的最大长度，超过后视为正文内容而不是字段说明
+const MAX_SURROUNDING_TEXT_LENGTH = 60;
+
+// 可以通过 input 的 type 属性直接识别的字段类型
+export const FIELD_INPUT_TYPES: Record<string, string> = {
+  url: 'url',
+  email: 'email',
+  phone: 'tel'
+};
+
+// 开启覆盖 autocomplete 时，网页原始的 autocomplete 值保存在该属性中
+export const ORIGINAL_AUTOCOMPLETE_ATTR = 'data-easyfill-autocomplete';
+
+/**
+ * @description: 识别信号类型
+ * @typedef {string} SignalType
+ */
+export type SignalType =
+  | 'name'
+  | 'id'
+  | 'type'
+  | 'autocomplete'
+  | 'label'
+  | 'ariaLabel'
+  | 'placeholder'
+  | 'className'
+  | 'surroundingText';
+
+/**
+ * @description: 各识别信号的权重
+ * @typedef {Record<SignalType, number>} ScoringWeights
+ */
+export type ScoringWeights = Record<SignalType, number>;
+
+/**
+ * @description: 评分配置接口
+ * @interface ScoringConfig
+ * @property {ScoringWeights} weights - 各识别信号的权重
+ * @property {number} threshold - 填充阈值，字段类型得分不低于该值时才会填充
+ */
+export interface ScoringConfig {
+  weights: ScoringWeights;
+  threshold: number;
+}
+
+/**
+ * @description: 输入框识别信号接口，所有文本均已转为小写
+ * @interface FieldSignals
+ * @property {string} name - name 属性
+ * @property {string} id - id 属性
+ * @property {string} type - type 属性
+ * @property {AutocompleteInfo} autocomplete - 按规范解析后的 autocomplete 属性
+ * @property {string} label - 关联 label 的文本
+ * @property {string} ariaLabel - aria-label 及 aria-labelledby 指向元素的文本
+ * @property {string} placeholder - placeholder 属性
+ * @property {string[]} classNames - class 列表
+ * @property {string} surroundingText - 输入框周边的简短说明文本
+ */
+export interface FieldSignals {
+  name: string;
+  id: string;
+  type: string;
+  autocomplete: AutocompleteInfo;
+  label: string;
+  ariaLabel: string;
+  placeholder: string;
+  classNames: string[];
+  surroundingText: string;
+}
+
+/**
+ * @description: 命中的识别信号
+ * @interface MatchedSignal
+ * @property {SignalType} signal - 信号类型
+ * @property {string} value - 命中的关键字或属性值
+ * @property {number} weight - 该信号贡献的分数
+ */
+export interface MatchedSignal {
+  signal: SignalType;
+  value: string;
+  weight: number;
+}
+
+/**
+ * @description: 字段评分结果接口
+ * @interface FieldScoreResult
+ * @property {string | null} fieldType - 得分最高且达到阈值的字段类型，没有则为 null
+ * @property {number} score - 最高得分
+ * @property {MatchedSignal[]} matchedSignals - 最高得分字段类型命中的信号
+ * @property {Record<string, number>} scores - 每种有得分的字段类型的分数
+ * @property {string} skipReason - 由 autocomplete 直接排除时的原因
+ */
+export interface FieldScoreResult {
+  fieldType: string | null;
+  score: number;
+  matchedSignals: MatchedSignal[];
+  scores: Record<string, number>;
+  skipReason?: string;
+}
+
+// 默认评分配置：单独命中 name/id/autocomplete 即可填充，
+// placeholder 与旧版本的通用选择器保持一致，class 和周边文本需要与其他信号组合才会填充
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    name: 1.0,
+    id: 1.0,
+    type: 0.8,
+    autocomplete: 1.0,
+    label: 0.8,
+    ariaLabel: 0.8,
+    placeholder: 0.6,
+    className: 0.4,
+    surroundingText: 0.3
+  },
+  threshold: 0.6
+};
+
+/**
+ * @description 获取评分配置，未配置的项使用默认值
+ * @function getScoringConfig
+ * @returns {Promise<ScoringConfig>} 评分配置
+ */
+export async function getScoringConfig(): Promise<ScoringConfig> {
+  try {
+    const result = await chromeStorageGet([STORAGE_KEYS.SCORING_CONFIG]);
+    const stored: Partial<ScoringConfig> = result[STORAGE_KEYS.SCORING_CONFIG] || {};
+    return {
+      weights: { ...DEFAULT_SCORING_CONFIG.weights, ...(stored.weights || {}) },
+      threshold: typeof stored.threshold === 'number' ? stored.threshold : DEFAULT_SCORING_CONFIG.threshold
+    };
+  } catch (error) {
+    logger.error('获取评分配置失败，使用默认配置', error);
+    return DEFAULT_SCORING_CONFIG;
+  }
+}
+
+/**
+ * @description 更新评分配置，支持部分更新
+ * @function updateScoringConfig
+ * @param {Partial<ScoringConfig>} config 要更新的配置
+ * @returns {Promise<ScoringConfig>} 更新后的完整配置
+ */
+export async function updateScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
+  try {
+    const current = await getScoringConfig();
+    const updated: ScoringConfig = {
+      weights: { ...current.weights, ...(config.weights || {}) },
+      threshold: config.threshold !== undefined ? config.threshold : current.threshold
+    };
+    await chromeStorageSet({ [STORAGE_KEYS.SCORING_CONFIG]: updated });
+    logger.info('评分配置已更新', updated);
+    return updated;
+  } catch (error) {
+    logger.error('更新评分配置失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 获取元素的规范化文本
+ * @function normalizeText
+ * @param {string | null | undefined} text 原始文本
+ * @returns {string} 去除多余空白并转为小写的文本
+ */
+function normalizeText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * @description 获取输入框关联的 label 文本，包括 label[for] 和包裹输入框的 label
+ * @function getLabelText
+ * @param {Element} element 输入元素
+ * @param {string} [indexedLabelText] 页面结构索引中已收集的 label[for] 文本，未提供时从元素读取
+ * @returns {string} label 文本
+ */
+function getLabelText(element: Element, indexedLabelText?: string): string {
+  const texts: string[] = [];
+  if (indexedLabelText !== undefined) {
+    if (indexedLabelText) texts.push(indexedLabelText);
+  } else {
+    const labels = (element as HTMLInputElement).labels;
+    if (labels) {
+      Array.from(labels).forEach(label => texts.push(label.textContent || ''));
+    }
+  }
+  const wrappingLabel = element.closest('label');
+  if (wrappingLabel && !texts.some(text => text.includes(wrappingLabel.textContent || ''))) {
+    texts.push(wrappingLabel.textContent || '');
+  }
+  return normalizeText(texts.join(' '));
+}
+
+/**
+ * @description 获取 aria-label 以及 aria-labelledby 指向元素的文本
+ * @function getAriaLabelText
+ * @param {Element} element 输入元素
+ * @returns {string} 无障碍标签文本
+ */
+function getAriaLabelText(element: Element): string {
+  const texts = [element.getAttribute('aria-label') || ''];
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    // aria-labelledby 在输入框所在的根节点（document 或 ShadowRoot）内查找
+    const root = element.getRootNode() as Document | ShadowRoot;
+    labelledBy.split(/\s+/).forEach(id => {
+      const labelElement = root.getElementById ? root.getElementById(id) : null;
+      if (labelElement) {
+        texts.push(labelElement.textContent || '');
+      }
+    });
+  }
+  return normalizeText(texts.join(' '));
+}
+
+/**
+ * @description 获取输入框周边的简短说明文本：前一个兄弟元素的文本和父元素自身的文本节点
+ * @function getSurroundingText
+ * @param {Element} element 输入元素
+ * @returns {string} 周边文本
+ */
+function getSurroundingText(element: Element): string {
+  const texts: string[] = [];
+
+  const previous = element.previousElementSibling;
+  if (previous && !previous.matches('input, textarea, select')) {
+    texts.push(previous.textContent || '');
+  }
+
+  if (element.parentElement) {
+    element.parentElement.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        texts.push(node.textContent || '');
+      }
+    });
+  }
+
+  const text = normalizeText(texts.join(' '));
+  return text.length <= MAX_SURROUNDING_TEXT_LENGTH ? text : '';
+}
+
+/**
+ * @description 收集输入框的所有识别信号
+ * @function collectFieldSignals
+ * @param {Element} element 输入元素
+ * @param {string} [indexedLabelText] 页面结构索引中已收集的 label[for] 文本
+ * @returns {FieldSignals} 识别信号
+ */
+export function collectFieldSignals(element: Element, indexedLabelText?: string): FieldSignals {
+  return {
+    name: normalizeText(element.getAttribute('name')),
+    id: normalizeText(element.getAttribute('id')),
+    type: normalizeText(element.getAttribute('type')),
+    // 优先读取被覆盖前的原始值，保证网页自身的提示不会丢失
+    autocomplete: parseAutocomplete(
+      element.hasAttribute(ORIGINAL_AUTOCOMPLETE_ATTR)
+        ? element.getAttribute(ORIGINAL_AUTOCOMPLETE_ATTR)
+        : element.getAttribute('autocomplete')
+    ),
+    label: getLabelText(element, indexedLabelText),
+    ariaLabel: getAriaLabelText(element),
+    // 可编辑区域没有 placeholder 属性，编辑器通常使用 data-placeholder 或 aria-placeholder
+    placeholder: normalizeText(
+      element.getAttribute('placeholder')
+        || element.getAttribute('data-placeholder')
+        || element.getAttribute('aria-placeholder')
+    ),
+    classNames: Array.from(element.classList).map(className => className.toLowerCase()),
+    surroundingText: getSurroundingText(element)
+  };
+}
+
+/**
+ * @description 判断文本中是否包含关键字。中文等非 ASCII 关键字按子串匹配，
+ * 英文关键字按单词匹配，较长的英文关键字也允许子串匹配（如 nickname 匹配 yournickname）
+ * @function textContainsKeyword
+ * @param {string} text 已规范化的文本
+ * @param {Set<string>} words 文本拆分后的英文单词，同一输入框只拆分一次
+ * @param {string} keyword 已转为小写的关键字
+ * @returns {boolean} 是否包含
+ */
+function textContainsKeyword(text: string, words: Set<string>, keyword: string): boolean {
+  if (!text || !keyword) return false;
+  if (/[^\x00-\x7f]/.test(keyword)) {
+    return text.includes(keyword);
+  }
+  if (keyword.length >= 4 && text.includes(keyword)) {
+    return true;
+  }
+  return words.has(keyword);
+}
+
+/**
+ * @description 将文本拆分为英文单词集合
+ * @function splitWords
+ * @param {string} text 已规范化的文本
+ * @returns {Set<string>} 单词集合
+ */
+function splitWords(text: string): Set<string> {
+  return new Set(text.split(/[^a-z0-9]+/));
+}
+
+/**
+ * @description 判断 class 列表是否命中关键字，class 会按 - 和 _ 拆分，例如 wl-nick 命中 nick
+ * @function classNamesContainKeyword
+ * @param {string[]} classNames class 列表
+ * @param {string} keyword 已转为小写的关键字
+ * @returns {boolean} 是否命中
+ */
+function classNamesContainKeyword(classNames: string[], keyword: string): boolean {
+  return classNames.some(className =>
+    className === keyword || className.split(/[-_]+/).includes(keyword)
+  );
+}
+
+/**
+ * @description 计算单个字段类型命中的信号，每种信号最多计分一次
+ * @function matchFieldType
+ * @param {FieldSignals} signals 输入框识别信号
+ * @param {Record<string, Set<string>>} words 文本类信号拆分后的单词
+ * @param {string} fieldType 字段类型
+ * @param {Set<string>} keywordSet 该字段类型的关键字集合
+ * @param {ScoringWeights} weights 信号权重
+ * @returns {MatchedSignal[]} 命中的信号列表
+ */
+function matchFieldType(
+  signals: FieldSignals,
+  words: Record<'label' | 'ariaLabel' | 'surroundingText', Set<string>>,
+  fieldType: string,
+  keywordSet: Set<string>,
+  weights: ScoringWeights
+): MatchedSignal[] {
+  const matched: MatchedSignal[] = [];
+  const add = (signal: SignalType, value: string) => {
+    if (!matched.some(m => m.signal === signal)) {
+      matched.push({ signal, value, weight: weights[signal] });
+    }
+  };
+
+  if (signals.name && keywordSet.has(signals.name)) {
+    add('name', signals.name);
+  }
+  if (signals.id && keywordSet.has(`#${signals.id}`)) {
+    add('id', `#${signals.id}`);
+  }
+  if (signals.type && FIELD_INPUT_TYPES[fieldType] === signals.type) {
+    add('type', signals.type);
+  }
+  if (signals.autocomplete.fieldType === fieldType) {
+    add('autocomplete', signals.autocomplete.raw);
+  }
+
+  for (const rawKeyword of keywordSet) {
+    // # 开头的关键字只用于 id 匹配
+    if (rawKeyword.startsWith('#')) continue;
+    const keyword = rawKeyword.toLowerCase();
+
+    if (textContainsKeyword(signals.label, words.label, keyword)) add('label', keyword);
+    if (textContainsKeyword(signals.ariaLabel, words.ariaLabel, keyword)) add('ariaLabel', keyword);
+    if (signals.placeholder.includes(keyword)) add('placeholder', keyword);
+    if (classNamesContainKeyword(signals.classNames, keyword)) add('className', keyword);
+    if (textContainsKeyword(signals.surroundingText, words.surroundingText, keyword)) add('surroundingText', keyword);
+  }
+
+  return matched;
+}
+
+/**
+ * @description 为输入框计算每种字段类型的置信度，返回得分最高且达到阈值的字段类型。
+ * 得分相同时按 fieldTypes 中的顺序优先。符合规范的 autocomplete 在关键字匹配之前处理：
+ * 映射到可填充的字段类型时直接采用，声明为凭据或其他字段时直接跳过
+ * @function scoreField
+ * @param {FieldSignals} signals 输入框识别信号
+ * @param {KeywordSets} keywordSets 关键字集合
+ * @param {string[]} fieldTypes 参与评分的字段类型，按优先级排列
+ * @param {ScoringConfig} config 评分配置
+ * @returns {FieldScoreResult} 评分结果
+ */
+export function scoreField(
+  signals: FieldSignals,
+  keywordSets: KeywordSets,
+  fieldTypes: string[],
+  config: ScoringConfig
+): FieldScoreResult {
+  const result: FieldScoreResult = { fieldType: null, score: 0, matchedSignals: [], scores: {} };
+
+  const autocomplete = signals.autocomplete;
+  if (autocomplete.isCredential) {
+    result.skipReason = `autocomplete 声明为凭据字段 (${autocomplete.raw})`;
+    return result;
+  }
+  if (isForeignAutocomplete(autocomplete)) {
+    result.skipReason = `autocomplete 声明为不支持的字段 (${autocomplete.raw})`;
+    return result;
+  }
+  if (autocomplete.fieldType) {
+    if (!fieldTypes.includes(autocomplete.fieldType)) {
+      result.skipReason = `autocomplete 声明的字段类型 ${autocomplete.fieldType} 没有可用的填充值`;
+      return result;
+    }
+    const weight = config.weights.autocomplete;
+    result.fieldType = autocomplete.fieldType;
+    result.score = weight;
+    result.matchedSignals = [{ signal: 'autocomplete', value: autocomplete.raw, weight }];
+    result.scores[autocomplete.fieldType] = weight;
+    return result;
+  }
+
+  // 文本类信号只拆分一次，所有字段类型的关键字共用
+  const words = {
+    label: splitWords(signals.label),
+    ariaLabel: splitWords(signals.ariaLabel),
+    surroundingText: splitWords(signals.surroundingText)
+  };
+
+  for (const fieldType of fieldTypes) {
+    const keywordSet = keywordSets[fieldType];
+    if (!keywordSet) continue;
+
+    const matchedSignals = matchFieldType(signals, words, fieldType, keywordSet, config.weights);
+    const score = matchedSignals.reduce((sum, m) => sum + m.weight, 0);
+    if (score <= 0) continue;
+
+    result.scores[fieldType] = Math.round(score * 100) / 100;
+    if (score > result.score) {
+      result.score = score;
+      result.matchedSignals = matchedSignals;
+      result.fieldType = fieldType;
+    }
+  }
+
+  if (result.score < config.threshold) {
+    result.fieldType = null;
+  }
+
+  return result;
+}
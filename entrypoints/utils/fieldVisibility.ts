@@ -0,0 +1,150 @@
+/**
+ * @description  输入框可见性与蜜罐检测，只填充用户能看到并能编辑的输入框
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/fieldVisibility
+ *
+ * Akismet、Antispam Bee 等反垃圾插件会在表单中放置用户看不到的蜜罐输入框，
+ * 只有机器人会填写它们，填写后评论会被判定为垃圾评论。
+ * 隐藏、禁用、只读、尺寸为零、移出屏幕以及按蜜罐命名的输入框都不填充
+ */
+
+import { isShadowRootNode } from './frameUtils';
+import { isChoiceElement } from './formPreferences';
+
+// 常见的蜜罐命名：name、id 或 class 命中时视为蜜罐
+const HONEYPOT_PATTERN = /honeypot|ak_hp|(^|[-_])hp([-_]|$)|antispam|anti-spam|spam[-_]?trap|bot[-_]?trap|do[-_]?not[-_]?fill|leave[-_]?(this[-_]?)?(empty|blank)/i;
+
+// 蜜罐输入框旁常见的提示文字
+const HONEYPOT_LABEL_PATTERN = /leave (this )?(field )?(empty|blank)|do not fill|请留空|保持为空|不要填写/i;
+
+// 视为尺寸为零的最大宽高（像素），屏幕阅读器专用的隐藏样式通常为 1px
+const MIN_VISIBLE_SIZE = 1;
+
+/**
+ * @description 获取元素的父元素，位于 Shadow Root 顶层时返回其宿主元素
+ * @function getComposedParent
+ * @param {Element} element 元素
+ * @returns {Element | null} 父元素
+ */
+function getComposedParent(element: Element): Element | null {
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+  const root = element.getRootNode();
+  return isShadowRootNode(root) ? root.host : null;
+}
+
+/**
+ * @description 判断元素或其祖先（包括 Shadow Root 的宿主）是否声明了 aria-hidden="true"
+ * @function isAriaHidden
+ * @param {Element} element 元素
+ * @returns {boolean} 是否对辅助技术隐藏
+ */
+function isAriaHidden(element: Element): boolean {
+  let current: Element | null = element;
+  while (current) {
+    if (current.getAttribute('aria-hidden') === 'true') {
+      return true;
+    }
+    current = getComposedParent(current);
+  }
+  return false;
+}
+
+/**
+ * @description 按 name、id、class 和关联 label 的文字判断是否为蜜罐输入框
+ * @function getHoneypotReason
+ * @param {Element} element 输入框
+ * @returns {string | null} 判断依据，不是蜜罐时返回 null
+ */
+function getHoneypotReason(element: Element): string | null {
+  const attributes: Array<[string, string]> = [
+    ['name', element.getAttribute('name') || ''],
+    ['id', element.id],
+    ['class', element.getAttribute('class') || '']
+  ];
+  for (const [attribute, value] of attributes) {
+    if (value && HONEYPOT_PATTERN.test(value)) {
+      return `${attribute} 符合蜜罐命名 (${value})`;
+    }
+  }
+
+  const labels = (element as HTMLInputElement).labels;
+  const labelText = labels ? Array.from(labels).map(label => label.textContent || '').join(' ') : '';
+  if (labelText && HONEYPOT_LABEL_PATTERN.test(labelText)) {
+    return `label 提示留空 (${labelText.trim()})`;
+  }
+
+  return null;
+}
+
+/**
+ * @description 判断输入框是否应当跳过，返回跳过的原因。
+ * 依次检查禁用、只读、隐藏类型、aria-hidden、tabindex="-1"、蜜罐命名和实际的渲染状态。
+ * 复选框和单选框常被页面隐藏后用自定义样式代替，不检查其尺寸、透明度和位置
+ * @function getHiddenFieldReason
+ * @param {Element} element 输入框
+ * @returns {string | null} 跳过的原因，可以填充时返回 null
+ */
+export function getHiddenFieldReason(element: Element): string | null {
+  if (element.matches(':disabled')) {
+    return '输入框已禁用';
+  }
+  if ((element.tagName === 'INPUT' || element.tagName === 'TEXTAREA') && (element as HTMLInputElement).readOnly) {
+    return '输入框为只读';
+  }
+  if (element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'hidden') {
+    return '输入框类型为 hidden';
+  }
+  if (isAriaHidden(element)) {
+    return '输入框或其父元素声明了 aria-hidden';
+  }
+  if (element.getAttribute('tabindex') === '-1') {
+    return '输入框声明了 tabindex="-1"，无法通过键盘聚焦';
+  }
+
+  const honeypotReason = getHoneypotReason(element);
+  if (honeypotReason) {
+    return `疑似蜜罐输入框：${honeypotReason}`;
+  }
+
+  // 没有布局盒说明元素或其祖先为 display: none
+  if (element.getClientRects().length === 0) {
+    return '输入框或其父元素为 display: none';
+  }
+
+  const view = element.ownerDocument.defaultView;
+  const style = view?.getComputedStyle(element);
+  if (style && (style.visibility === 'hidden' || style.visibility === 'collapse')) {
+    return `输入框为 visibility: ${style.visibility}`;
+  }
+
+  if (isChoiceElement(element)) {
+    return null;
+  }
+
+  if (style && parseFloat(style.opacity) === 0) {
+    return '输入框完全透明 (opacity: 0)';
+  }
+
+  const rect = element.getBoundingClientRect();
+  if (rect.width <= MIN_VISIBLE_SIZE || rect.height <= MIN_VISIBLE_SIZE) {
+    return `输入框尺寸为零 (${Math.round(rect.width)}x${Math.round(rect.height)})`;
+  }
+
+  // 通过 left: -9999px 等方式移出页面，滚动也无法看到
+  const scrollX = view?.scrollX || 0;
+  const scrollY = view?.scrollY || 0;
+  if (rect.right + scrollX <= 0 || rect.bottom + scrollY <= 0) {
+    return '输入框位于页面可见区域之外';
+  }
+
+  return null;
+}
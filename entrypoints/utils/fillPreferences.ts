@@ -0,0 +1,136 @@
+/**
+ * @description  填充偏好设置，用于管理填充行为相关的开关
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/fillPreferences
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet } from './storageUtils';
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  OVERRIDE_AUTOCOMPLETE: 'easyfill_override_autocomplete',
+  FILL_MODE: 'easyfill_fill_mode',
+  DOMAIN_FILL_DECISIONS: 'easyfill_domain_fill_decisions'
+};
+
+/**
+ * @description: 填充模式。auto 为页面加载后直接填充，preview 为先高亮预览，由用户确认后再填充
+ */
+export type FillMode = 'auto' | 'preview';
+
+/**
+ * @description: 用户在预览中对某个域名做出的选择。accept 表示以后直接填充，dismiss 表示以后不再填充
+ */
+export type DomainFillDecision = 'accept' | 'dismiss';
+
+/**
+ * @description: 填充偏好设置接口
+ * @interface FillPreferences
+ * @property {boolean} overrideAutocomplete - 是否将网页输入框的 autocomplete 属性覆盖为 on，默认关闭
+ * @property {FillMode} fillMode - 填充模式，默认为 auto
+ * @property {Record<string, DomainFillDecision>} domainFillDecisions - 按域名记住的预览选择
+ */
+export interface FillPreferences {
+  overrideAutocomplete: boolean;
+  fillMode: FillMode;
+  domainFillDecisions: Record<string, DomainFillDecision>;
+}
+
+/**
+ * @description 获取填充偏好设置
+ * @function getFillPreferences
+ * @returns {Promise<FillPreferences>} 返回一个包含填充偏好设置的Promise对象
+ */
+export async function getFillPreferences(): Promise<FillPreferences> {
+  try {
+    const result = await chromeStorageGet([
+      STORAGE_KEYS.OVERRIDE_AUTOCOMPLETE,
+      STORAGE_KEYS.FILL_MODE,
+      STORAGE_KEYS.DOMAIN_FILL_DECISIONS
+    ]);
+
+    return {
+      overrideAutocomplete: result[STORAGE_KEYS.OVERRIDE_AUTOCOMPLETE] === true,
+      fillMode: result[STORAGE_KEYS.FILL_MODE] === 'preview' ? 'preview' : 'auto',
+      domainFillDecisions: result[STORAGE_KEYS.DOMAIN_FILL_DECISIONS] || {}
+    };
+  } catch (error) {
+    logger.error('获取填充偏好设置时发生异常', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 更新填充偏好设置，支持部分更新
+ * @function updateFillPreferences
+ * @param {Partial<FillPreferences>} preferences 要更新的设置对象
+ * @returns {Promise<void>} 返回一个Promise对象，表示更新操作完成
+ */
+export async function updateFillPreferences(preferences: Partial<FillPreferences>): Promise<void> {
+  try {
+    const updateData: Record<string, any> = {};
+
+    if (preferences.overrideAutocomplete !== undefined) {
+      updateData[STORAGE_KEYS.OVERRIDE_AUTOCOMPLETE] = preferences.overrideAutocomplete;
+    }
+
+    if (preferences.fillMode !== undefined) {
+      updateData[STORAGE_KEYS.FILL_MODE] = preferences.fillMode;
+    }
+
+    if (preferences.domainFillDecisions !== undefined) {
+      updateData[STORAGE_KEYS.DOMAIN_FILL_DECISIONS] = preferences.domainFillDecisions;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      logger.info('没有需要更新的填充偏好设置');
+      return;
+    }
+
+    await chromeStorageSet(updateData);
+    logger.info('填充偏好设置已更新', preferences);
+  } catch (error) {
+    logger.error('更新填充偏好设置时发生异常', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 获取指定域名实际使用的填充方式：已记住选择的域名按选择处理，其余域名使用全局填充模式
+ * @function getDomainFillMode
+ * @param {string} domain 域名
+ * @returns {Promise<FillMode | 'skip'>} 填充方式，skip 表示用户已选择不在该域名填充
+ */
+export async function getDomainFillMode(domain: string): Promise<FillMode | 'skip'> {
+  const { fillMode, domainFillDecisions } = await getFillPreferences();
+  const decision = domainFillDecisions[domain.toLowerCase()];
+  if (decision === 'accept') {
+    return 'auto';
+  }
+  if (decision === 'dismiss') {
+    return 'skip';
+  }
+  return fillMode;
+}
+
+/**
+ * @description 记住用户在预览中对某个域名做出的选择
+ * @function rememberDomainFillDecision
+ * @param {string} domain 域名
+ * @param {DomainFillDecision} decision 选择
+ * @returns {Promise<void>} 返回一个Promise对象，表示保存操作完成
+ */
+export async function rememberDomainFillDecision(domain: string, decision: DomainFillDecision): Promise<void> {
+  const { domainFillDecisions } = await getFillPreferences();
+  await updateFillPreferences({
+    domainFillDecisions: { ...domainFillDecisions, [domain.toLowerCase()]: decision }
+  });
+}
@@ -0,0 +1,343 @@
+/**
+ * @description  填充预览浮层，在页面上高亮待填充的输入框并展示计划填充的值，由用户确认后再填充
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/fillPreview
+ *
+ * 浮层挂载在独立的 Shadow Root 中，避免页面样式影响浮层，也避免浮层样式污染页面
+ */
+
+import { logger } from './logger';
+import {
+  getChoiceFieldLabel,
+  CHECKBOX_FIELD_PREFIX,
+  CHECKBOX_STATE_LABELS,
+  type CheckboxPreferenceState
+} from './formPreferences';
+
+const PREVIEW_HOST_ID = 'easyfill-preview-host';
+
+// 内置字段类型的显示名称，表单选项偏好使用偏好名称，其余字段类型直接显示类型名
+const FIELD_TYPE_LABELS: Record<string, string> = {
+  name: '昵称',
+  email: '邮箱',
+  url: '网址',
+  comment: '评论'
+};
+
+const PREVIEW_STYLES = `
+  .ef-marker {
+    position: fixed;
+    box-sizing: border-box;
+    border: 2px dashed #007bff;
+    border-radius: 4px;
+    background: rgba(0, 123, 255, 0.08);
+    pointer-events: none;
+  }
+  .ef-tag {
+    position: absolute;
+    left: -2px;
+    bottom: 100%;
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    max-width: 320px;
+    padding: 2px 4px 2px 8px;
+    border-radius: 4px 4px 0 0;
+    background: #007bff;
+    color: #fff;
+    font: 12px/20px -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    white-space: nowrap;
+    pointer-events: auto;
+  }
+  .ef-tag span {
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+  .ef-panel {
+    position: fixed;
+    right: 16px;
+    bottom: 16px;
+    padding: 12px 16px;
+    border-radius: 8px;
+    background: #fff;
+    box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+    color: #374151;
+    font: 13px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    pointer-events: auto;
+  }
+  .ef-panel-actions {
+    display: flex;
+    justify-content: flex-end;
+    gap: 8px;
+    margin-top: 8px;
+  }
+  button {
+    border: none;
+    border-radius: 4px;
+    padding: 2px 10px;
+    font: inherit;
+    cursor: pointer;
+  }
+  .ef-accept {
+    background: linear-gradient(to right, #007bff, #00d4ff);
+    color: #fff;
+  }
+  .ef-dismiss {
+    background: #f3f4f6;
+    color: #374151;
+  }
+  .ef-tag button {
+    padding: 0 6px;
+    background: rgba(255, 255, 255, 0.25);
+    color: #fff;
+  }
+`;
+
+/**
+ * @description: 预览中的一项
+ * @interface PreviewItem
+ * @property {Element} element - 待填充的输入框
+ * @property {string} fieldType - 字段类型
+ * @property {string} value - 计划填充的值
+ */
+export interface PreviewItem {
+  element: Element;
+  fieldType: string;
+  value: string;
+}
+
+/**
+ * @description: 预览的用户操作回调
+ * @interface PreviewCallbacks
+ * @property {Function} onAccept - 接受填充，acceptAll 表示用户选择了全部填充
+ * @property {Function} onDismiss - 忽略本次填充
+ */
+export interface PreviewCallbacks<T extends PreviewItem> {
+  onAccept: (items: T[], acceptAll: boolean) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * @description: 预览中待确认的一项，记录所属填充的回调，合并到同一预览中的各次填充分别回调
+ * @interface PendingPreviewItem
+ * @property {PreviewItem} item - 预览项
+ * @property {PreviewCallbacks<PreviewItem>} callbacks - 该预览项所属填充的回调
+ * @property {HTMLElement} marker - 高亮标记
+ */
+interface PendingPreviewItem {
+  item: PreviewItem;
+  callbacks: PreviewCallbacks<PreviewItem>;
+  marker: HTMLElement;
+}
+
+/**
+ * @description: 当前显示的预览
+ * @interface ActivePreview
+ * @property {HTMLElement} host - 浮层宿主元素
+ * @property {Function} addItems - 向预览中追加预览项
+ * @property {Function} cleanup - 移除事件监听
+ */
+interface ActivePreview {
+  host: HTMLElement;
+  addItems: (items: PreviewItem[], callbacks: PreviewCallbacks<PreviewItem>) => void;
+  cleanup: () => void;
+}
+
+// 当前显示的预览，同一时间只显示一个，之后的填充合并到其中
+let activePreview: ActivePreview | null = null;
+
+/**
+ * @description 获取元素相对于当前窗口视口的位置，同源框架中的元素需要加上框架的偏移
+ * @function getViewportRect
+ * @param {Element} element 元素
+ * @returns {DOMRect} 元素在当前窗口视口中的位置
+ */
+function getViewportRect(element: Element): DOMRect {
+  const rect = element.getBoundingClientRect();
+  let left = rect.left;
+  let top = rect.top;
+  let view: Window | null = element.ownerDocument.defaultView;
+
+  while (view && view !== window && view.frameElement) {
+    const frameRect = view.frameElement.getBoundingClientRect();
+    left += frameRect.left + view.frameElement.clientLeft;
+    top += frameRect.top + view.frameElement.clientTop;
+    view = view.parent;
+  }
+
+  return new DOMRect(left, top, rect.width, rect.height);
+}
+
+/**
+ * @description 关闭当前显示的预览
+ * @function clearFillPreview
+ */
+export function clearFillPreview(): void {
+  if (!activePreview) return;
+  activePreview.cleanup();
+  activePreview.host.remove();
+  activePreview = null;
+}
+
+/**
+ * @description 按回调分组预览项，合并到同一预览中的各次填充分别接收自己的预览项
+ * @function groupByCallbacks
+ * @param {PendingPreviewItem[]} pending 待确认的预览项
+ * @returns {Map<PreviewCallbacks<PreviewItem>, PreviewItem[]>} 回调到预览项的映射
+ */
+function groupByCallbacks(pending: PendingPreviewItem[]): Map<PreviewCallbacks<PreviewItem>, PreviewItem[]> {
+  const groups = new Map<PreviewCallbacks<PreviewItem>, PreviewItem[]>();
+  pending.forEach(({ item, callbacks }) => {
+    groups.set(callbacks, [...(groups.get(callbacks) || []), item]);
+  });
+  return groups;
+}
+
+/**
+ * @description 创建预览浮层，包括操作面板和跟随页面滚动的高亮标记
+ * @function createFillPreview
+ * @returns {ActivePreview} 新建的预览
+ */
+function createFillPreview(): ActivePreview {
+  const host = document.createElement('div');
+  host.id = PREVIEW_HOST_ID;
+  host.style.cssText = 'position: fixed; inset: 0; pointer-events: none; z-index: 2147483647;';
+  const shadow = host.attachShadow({ mode: 'closed' });
+
+  const style = document.createElement('style');
+  style.textContent = PREVIEW_STYLES;
+  shadow.appendChild(style);
+
+  let pending: PendingPreviewItem[] = [];
+
+  const panelText = document.createElement('div');
+  const updatePanelText = () => {
+    panelText.textContent = `EasyFill 找到 ${pending.length} 个可填充的输入框`;
+  };
+
+  // 跟随页面滚动和窗口大小变化更新高亮位置
+  let frameRequested = false;
+  const reposition = () => {
+    frameRequested = false;
+    pending.forEach(({ item, marker }) => {
+      const rect = getViewportRect(item.element);
+      marker.style.display = rect.width === 0 && rect.height === 0 ? 'none' : 'block';
+      marker.style.left = `${rect.left}px`;
+      marker.style.top = `${rect.top}px`;
+      marker.style.width = `${rect.width}px`;
+      marker.style.height = `${rect.height}px`;
+    });
+  };
+  const scheduleReposition = () => {
+    if (frameRequested) return;
+    frameRequested = true;
+    requestAnimationFrame(reposition);
+  };
+
+  // 逐项填充
+  const acceptItem = (entry: PendingPreviewItem) => {
+    pending = pending.filter(p => p !== entry);
+    entry.marker.remove();
+    entry.callbacks.onAccept([entry.item], false);
+    if (pending.length === 0) {
+      clearFillPreview();
+    } else {
+      updatePanelText();
+    }
+  };
+
+  const addItems = (items: PreviewItem[], callbacks: PreviewCallbacks<PreviewItem>) => {
+    items.forEach(item => {
+      // 同一输入框已在预览中时保留先前的预览项
+      if (pending.some(p => p.item.element === item.element)) return;
+
+      const marker = document.createElement('div');
+      marker.className = 'ef-marker';
+
+      const tag = document.createElement('div');
+      tag.className = 'ef-tag';
+      const text = document.createElement('span');
+      const label = FIELD_TYPE_LABELS[item.fieldType] || getChoiceFieldLabel(item.fieldType) || item.fieldType;
+      const value = item.fieldType.startsWith(CHECKBOX_FIELD_PREFIX)
+        ? CHECKBOX_STATE_LABELS[item.value as CheckboxPreferenceState]
+        : item.value;
+      text.textContent = `${label}：${value}`;
+      const entry: PendingPreviewItem = { item, callbacks, marker };
+      const acceptButton = document.createElement('button');
+      acceptButton.textContent = '填充';
+      acceptButton.addEventListener('click', () => acceptItem(entry));
+      tag.append(text, acceptButton);
+      marker.appendChild(tag);
+
+      shadow.appendChild(marker);
+      pending.push(entry);
+    });
+    updatePanelText();
+    reposition();
+  };
+
+  const panel = document.createElement('div');
+  panel.className = 'ef-panel';
+  const actions = document.createElement('div');
+  actions.className = 'ef-panel-actions';
+  const dismissButton = document.createElement('button');
+  dismissButton.className = 'ef-dismiss';
+  dismissButton.textContent = '忽略';
+  dismissButton.addEventListener('click', () => {
+    const groups = groupByCallbacks(pending);
+    clearFillPreview();
+    groups.forEach((_, callbacks) => callbacks.onDismiss());
+  });
+  const acceptAllButton = document.createElement('button');
+  acceptAllButton.className = 'ef-accept';
+  acceptAllButton.textContent = '全部填充';
+  acceptAllButton.addEventListener('click', () => {
+    const groups = groupByCallbacks(pending);
+    clearFillPreview();
+    groups.forEach((groupItems, callbacks) => callbacks.onAccept(groupItems, true));
+  });
+  actions.append(dismissButton, acceptAllButton);
+  panel.append(panelText, actions);
+  shadow.appendChild(panel);
+
+  window.addEventListener('scroll', scheduleReposition, { capture: true, passive: true });
+  window.addEventListener('resize', scheduleReposition);
+
+  document.documentElement.appendChild(host);
+
+  return {
+    host,
+    addItems,
+    cleanup: () => {
+      window.removeEventListener('scroll', scheduleReposition, { capture: true });
+      window.removeEventListener('resize', scheduleReposition);
+    }
+  };
+}
+
+/**
+ * @description 显示填充预览：高亮每个待填充的输入框并标注字段类型和计划填充的值，
+ * 用户可以逐项填充、全部填充或忽略。已有预览时把新的预览项合并到其中，
+ * 懒加载表单和框架加载等后续填充不会清除用户尚未确认的预览项
+ * @function showFillPreview
+ * @param {T[]} items 预览项
+ * @param {PreviewCallbacks<T>} callbacks 用户操作回调
+ */
+export function showFillPreview<T extends PreviewItem>(items: T[], callbacks: PreviewCallbacks<T>): void {
+  if (items.length === 0) return;
+
+  if (!activePreview) {
+    activePreview = createFillPreview();
+  }
+  // 回调只会收到本次传入的预览项
+  activePreview.addItems(items, callbacks as unknown as PreviewCallbacks<PreviewItem>);
+
+  logger.info('已显示填充预览', { itemCount: items.length });
+}
@@ -0,0 +1,170 @@
+/**
+ * @description  填充状态记录，保存内容脚本上报的每个标签页最近一次填充结果
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/fillStatusService
+ *
+ * 每个框架单独上报，汇总后供工具栏弹窗展示。
+ * 结果保存在 chrome.storage.session 中，后台 Service Worker 休眠重启后仍然保留，浏览器关闭后自动清除
+ */
+
+import { logger } from './logger';
+import type { PolicyListName } from './blacklistService';
+import { chromeStorageGet, chromeStorageSet, chromeStorageRemove } from './storageUtils';
+
+/**
+ * @description: 填充结果状态
+ * - filled：已执行填充（包括填充了 0 个字段的情况）
+ * - preview：已显示填充预览，等待用户确认
+ * - blocked：名单不允许填充，被黑名单拦截或不在白名单中
+ * - skipped：用户已选择不在该网站填充
+ * - noForm：没有找到可填充的输入框
+ * - missingProfile：没有可用身份或身份缺少必填项
+ */
+export type FillState = 'filled' | 'preview' | 'blocked' | 'skipped' | 'noForm' | 'missingProfile';
+
+/**
+ * @description: 单个字段的填充来源
+ * @interface FillMatch
+ * @property {string} fieldType - 字段类型
+ * @property {'recipe' | 'adapter' | 'keyword'} source - 匹配来源：站点规则、评论系统适配器或关键字匹配
+ * @property {string} rule - 命中的具体规则说明
+ */
+export interface FillMatch {
+  fieldType: string;
+  source: 'recipe' | 'adapter' | 'keyword';
+  rule: string;
+}
+
+/**
+ * @description: 内容脚本上报的填充结果
+ * @interface FillStatusReport
+ * @property {FillState} state - 填充结果状态
+ * @property {string} domain - 框架的域名
+ * @property {number} fieldsFilled - 成功填充的字段数量
+ * @property {FillMatch[]} matches - 已填充字段的来源
+ * @property {string} [profileName] - 使用的身份名称
+ * @property {string} [profileRule] - 选择身份时命中的域名规则，未命中时为默认身份
+ * @property {string} [reason] - 状态说明，例如黑名单拦截原因
+ * @property {PolicyListName} [list] - 不允许填充时做出决定的名单，不在白名单中时为空
+ * @property {number} timestamp - 上报时间
+ */
+export interface FillStatusReport {
+  state: FillState;
+  domain: string;
+  fieldsFilled: number;
+  matches: FillMatch[];
+  profileName?: string;
+  profileRule?: string;
+  reason?: string;
+  list?: PolicyListName;
+  timestamp: number;
+}
+
+// 存储键名前缀，每个框架的填充结果单独保存为 前缀 + 标签页ID_框架ID，多个框架同时上报时互不覆盖
+const STORAGE_KEYS = {
+  FILL_STATUS_PREFIX: 'easyfill_fill_status_'
+};
+
+/**
+ * @description 获取标签页填充结果的存储键名前缀
+ * @function getTabKeyPrefix
+ * @param {number} tabId 标签页ID
+ * @returns {string} 存储键名前缀
+ */
+function getTabKeyPrefix(tabId: number): string {
+  return `${STORAGE_KEYS.FILL_STATUS_PREFIX}${tabId}_`;
+}
+
+/**
+ * @description 读取标签页中各框架的填充结果
+ * @function getTabFrameReports
+ * @param {number} tabId 标签页ID
+ * @returns {Promise<Map<number, FillStatusReport>>} 框架ID到填充结果的映射
+ */
+async function getTabFrameReports(tabId: number): Promise<Map<number, FillStatusReport>> {
+  const prefix = getTabKeyPrefix(tabId);
+  const result = await chromeStorageGet<Record<string, any>>(null, 'session');
+  const frames = new Map<number, FillStatusReport>();
+  Object.entries(result).forEach(([key, report]) => {
+    if (key.startsWith(prefix)) {
+      frames.set(Number(key.slice(prefix.length)), report);
+    }
+  });
+  return frames;
+}
+
+/**
+ * @description 记录框架上报的填充结果
+ * @function updateTabFillStatus
+ * @param {number} tabId 标签页ID
+ * @param {number} frameId 框架ID
+ * @param {FillStatusReport} report 填充结果
+ * @returns {Promise<void>}
+ */
+export async function updateTabFillStatus(tabId: number, frameId: number, report: FillStatusReport): Promise<void> {
+  try {
+    await chromeStorageSet({ [`${getTabKeyPrefix(tabId)}${frameId}`]: report }, 'session');
+  } catch (error) {
+    logger.error('保存填充结果失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 汇总标签页中所有框架的填充结果：字段数量和来源合并计算，
+ * 任一框架已填充时状态为已填充，否则使用顶层框架的状态
+ * @function getTabFillStatus
+ * @param {number} tabId 标签页ID
+ * @returns {Promise<FillStatusReport | null>} 汇总后的填充结果，没有记录时返回null
+ */
+export async function getTabFillStatus(tabId: number): Promise<FillStatusReport | null> {
+  try {
+    const frames = await getTabFrameReports(tabId);
+    if (frames.size === 0) {
+      return null;
+    }
+
+    const reports = Array.from(frames.values());
+    const topReport = frames.get(0) || reports[0];
+    const filledReports = reports.filter(report => report.fieldsFilled > 0);
+
+    return {
+      ...topReport,
+      state: filledReports.length > 0 ? 'filled' : topReport.state,
+      fieldsFilled: reports.reduce((total, report) => total + report.fieldsFilled, 0),
+      matches: reports.flatMap(report => report.matches),
+      profileName: filledReports[0]?.profileName || topReport.profileName,
+      profileRule: filledReports[0]?.profileRule || topReport.profileRule,
+      timestamp: Math.max(...reports.map(report => report.timestamp))
+    };
+  } catch (error) {
+    logger.error('获取填充结果失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 清除标签页的填充结果，在标签页关闭或加载新页面时调用，清除失败时只记录日志
+ * @function clearTabFillStatus
+ * @param {number} tabId 标签页ID
+ * @returns {Promise<void>}
+ */
+export async function clearTabFillStatus(tabId: number): Promise<void> {
+  try {
+    const prefix = getTabKeyPrefix(tabId);
+    const result = await chromeStorageGet<Record<string, any>>(null, 'session');
+    const keys = Object.keys(result).filter(key => key.startsWith(prefix));
+    if (keys.length > 0) {
+      await chromeStorageRemove(keys, 'session');
+    }
+  } catch (error) {
+    logger.error('清除填充结果失败', error);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * @description  表单选项偏好，处理评论表单中常见的复选框、单选框和下拉选择框
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/formPreferences
+ *
+ * 偏好保存在每个身份中，默认全部不处理。启用的偏好作为 checkbox:、select: 前缀的字段类型参与关键字匹配：
+ * 复选框按“记住我”、“有新回复时邮件通知我”等说明文字识别；
+ * 下拉选择框和单选框按用户配置的关键字识别，再按选项文字或值选中对应选项
+ */
+
+// 复选框偏好的字段类型前缀
+export const CHECKBOX_FIELD_PREFIX = 'checkbox:';
+
+// 选择偏好的字段类型前缀
+export const SELECT_FIELD_PREFIX = 'select:';
+
+/**
+ * @description: 复选框偏好的键
+ * @typedef {string} CheckboxPreferenceKey
+ */
+export type CheckboxPreferenceKey = 'rememberMe' | 'notifyFollowUp' | 'saveInfo';
+
+/**
+ * @description: 复选框偏好的状态：不处理、勾选或取消勾选
+ * @typedef {string} CheckboxPreferenceState
+ */
+export type CheckboxPreferenceState = 'ignore' | 'checked' | 'unchecked';
+
+/**
+ * @description: 复选框偏好的定义
+ * @interface CheckboxPreferenceDefinition
+ * @property {CheckboxPreferenceKey} key - 偏好的键
+ * @property {string} label - 显示名称
+ * @property {string[]} keywords - 识别复选框的关键字，# 开头的关键字只用于 id 匹配
+ */
+export interface CheckboxPreferenceDefinition {
+  key: CheckboxPreferenceKey;
+  label: string;
+  keywords: string[];
+}
+
+// 内置的复选框偏好
+export const CHECKBOX_PREFERENCES: CheckboxPreferenceDefinition[] = [
+  {
+    key: 'saveInfo',
+    label: '在浏览器中保存我的信息',
+    keywords: ['#wp-comment-cookies-consent', 'wp-comment-cookies-consent', 'save my name', 'cookies consent', '保存我的', '保存昵称']
+  },
+  {
+    key: 'notifyFollowUp',
+    label: '有新回复时邮件通知我',
+    keywords: ['subscribe_comments', 'comment_mail_notify', 'notify me of follow-up', 'follow-up comments', '回复时邮件通知', '回复通知我', '邮件通知我']
+  },
+  {
+    key: 'rememberMe',
+    label: '记住我',
+    keywords: ['rememberme', 'remember', 'remember me', 'keep me', '记住我', '记住登录', '自动登录']
+  }
+];
+
+// 复选框偏好状态的显示文字
+export const CHECKBOX_STATE_LABELS: Record<CheckboxPreferenceState, string> = {
+  ignore: '不处理',
+  checked: '勾选',
+  unchecked: '取消勾选'
+};
+
+/**
+ * @description: 选择偏好，用于下拉选择框和单选框，例如评论时选择的登录方式
+ * @interface SelectPreference
+ * @property {string} id - 偏好唯一标识
+ * @property {string} label - 显示名称
+ * @property {string[]} keywords - 识别选择框的关键字，单选框按 name 等分组信息匹配
+ * @property {string} option - 要选中的选项，与选项文字或值比较，不区分大小写
+ */
+export interface SelectPreference {
+  id: string;
+  label: string;
+  keywords: string[];
+  option: string;
+}
+
+/**
+ * @description: 身份的表单选项偏好
+ * @interface FormPreferences
+ * @property {Record<CheckboxPreferenceKey, CheckboxPreferenceState>} checkboxes - 复选框偏好
+ * @property {SelectPreference[]} selects - 选择偏好列表
+ */
+export interface FormPreferences {
+  checkboxes: Record<CheckboxPreferenceKey, CheckboxPreferenceState>;
+  selects: SelectPreference[];
+}
+
+/**
+ * @description 创建默认的表单选项偏好，所有复选框都不处理
+ * @function createDefaultFormPreferences
+ * @returns {FormPreferences} 默认偏好
+ */
+export function createDefaultFormPreferences(): FormPreferences {
+  return {
+    checkboxes: { rememberMe: 'ignore', notifyFollowUp: 'ignore', saveInfo: 'ignore' },
+    selects: []
+  };
+}
+
+/**
+ * @description 补全表单选项偏好，兼容没有偏好的旧身份数据
+ * @function normalizeFormPreferences
+ * @param {Partial<FormPreferences>} [preferences] 已保存的偏好
+ * @returns {FormPreferences} 补全后的偏好
+ */
+export function normalizeFormPreferences(preferences?: Partial<FormPreferences>): FormPreferences {
+  const defaults = createDefaultFormPreferences();
+  return {
+    checkboxes: { ...defaults.checkboxes, ...(preferences?.checkboxes || {}) },
+    selects: Array.isArray(preferences?.selects) ? preferences.selects : []
+  };
+}
+
+/**
+ * @description 创建一个新的选择偏好
+ * @function createSelectPreference
+ * @param {Partial<SelectPreference>} data 初始数据
+ * @returns {SelectPreference} 新的选择偏好
+ */
+export function createSelectPreference(data: Partial<SelectPreference> = {}): SelectPreference {
+  return {
+    label: '',
+    keywords: [],
+    option: '',
+    ...data,
+    id: `select_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  };
+}
+
+/**
+ * @description 获取已启用偏好的填充值，复选框为 checked 或 unchecked，选择偏好为要选中的选项
+ * @function getPreferenceFieldValues
+ * @param {FormPreferences} preferences 表单选项偏好
+ * @returns {Record<string, string>} 字段类型到填充值的映射
+ */
+export function getPreferenceFieldValues(preferences: FormPreferences): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  CHECKBOX_PREFERENCES.forEach(({ key }) => {
+    const state = preferences.checkboxes[key];
+    if (state && state !== 'ignore') {
+      values[`${CHECKBOX_FIELD_PREFIX}${key}`] = state;
+    }
+  });
+
+  preferences.selects.forEach(preference => {
+    if (preference.option.trim() && preference.keywords.length > 0) {
+      values[`${SELECT_FIELD_PREFIX}${preference.id}`] = preference.option.trim();
+    }
+  });
+
+  return values;
+}
+
+/**
+ * @description 获取已启用偏好的匹配关键字
+ * @function getPreferenceKeywords
+ * @param {FormPreferences} preferences 表单选项偏好
+ * @returns {Record<string, string[]>} 字段类型到关键字列表的映射
+ */
+export function getPreferenceKeywords(preferences: FormPreferences): Record<string, string[]> {
+  const fieldValues = getPreferenceFieldValues(preferences);
+  const keywords: Record<string, string[]> = {};
+
+  CHECKBOX_PREFERENCES.forEach(definition => {
+    const fieldType = `${CHECKBOX_FIELD_PREFIX}${definition.key}`;
+    if (fieldValues[fieldType]) {
+      keywords[fieldType] = definition.keywords;
+    }
+  });
+
+  preferences.selects.forEach(preference => {
+    const fieldType = `${SELECT_FIELD_PREFIX}${preference.id}`;
+    if (fieldValues[fieldType]) {
+      keywords[fieldType] = preference.keywords.map(keyword => keyword.toLowerCase());
+    }
+  });
+
+  return keywords;
+}
+
+/**
+ * @description 判断元素是否为复选框、单选框或下拉选择框
+ * @function isChoiceElement
+ * @param {Element} element 元素
+ * @returns {boolean} 是否为选择类元素
+ */
+export function isChoiceElement(element: Element): boolean {
+  if (element.tagName === 'SELECT') return true;
+  if (element.tagName !== 'INPUT') return false;
+  const type = (element as HTMLInputElement).type;
+  return type === 'checkbox' || type === 'radio';
+}
+
+/**
+ * @description 判断字段类型是否为表单选项偏好
+ * @function isChoiceFieldType
+ * @param {string} fieldType 字段类型
+ * @returns {boolean} 是否为选项偏好
+ */
+export function isChoiceFieldType(fieldType: string): boolean {
+  return fieldType.startsWith(CHECKBOX_FIELD_PREFIX) || fieldType.startsWith(SELECT_FIELD_PREFIX);
+}
+
+/**
+ * @description 筛选选择类元素可以匹配的字段类型：复选框只匹配复选框偏好，下拉选择框和单选框只匹配选择偏好
+ * @function getChoiceFieldTypes
+ * @param {Element} element 选择类元素
+ * @param {string[]} fieldTypes 参与匹配的字段类型
+ * @returns {string[]} 可以匹配的字段类型
+ */
+export function getChoiceFieldTypes(element: Element, fieldTypes: string[]): string[] {
+  const prefix = element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'checkbox'
+    ? CHECKBOX_FIELD_PREFIX
+    : SELECT_FIELD_PREFIX;
+  return fieldTypes.filter(fieldType => fieldType.startsWith(prefix));
+}
+
+/**
+ * @description 判断选项的文字或值是否与偏好中的选项一致，不区分大小写
+ * @function matchesChoiceOption
+ * @param {string[]} candidates 选项的文字和值
+ * @param {string} option 偏好中的选项
+ * @returns {boolean} 是否一致
+ */
+export function matchesChoiceOption(candidates: string[], option: string): boolean {
+  const expected = option.trim().toLowerCase();
+  return candidates.some(candidate => candidate.trim().toLowerCase() === expected);
+}
+
+/**
+ * @description 获取单选框的选项文字：关联 label 的文本和 value
+ * @function getRadioOptionTexts
+ * @param {HTMLInputElement} radio 单选框
+ * @returns {string[]} 选项文字和值
+ */
+export function getRadioOptionTexts(radio: HTMLInputElement): string[] {
+  const texts = [radio.value];
+  if (radio.labels) {
+    Array.from(radio.labels).forEach(label => texts.push(label.textContent || ''));
+  }
+  return texts;
+}
+
+/**
+ * @description 获取选项偏好字段类型的显示名称，不是选项偏好时返回 null
+ * @function getChoiceFieldLabel
+ * @param {string} fieldType 字段类型
+ * @returns {string | null} 显示名称
+ */
+export function getChoiceFieldLabel(fieldType: string): string | null {
+  if (fieldType.startsWith(CHECKBOX_FIELD_PREFIX)) {
+    const key = fieldType.slice(CHECKBOX_FIELD_PREFIX.length);
+    return CHECKBOX_PREFERENCES.find(definition => definition.key === key)?.label || null;
+  }
+  if (fieldType.startsWith(SELECT_FIELD_PREFIX)) {
+    return '选择项';
+  }
+  return null;
+}
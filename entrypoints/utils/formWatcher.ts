@@ -0,0 +1,158 @@
+/**
+ * @description  表单出现检测，发现懒加载的评论表单并只填充新出现的输入框
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/formWatcher
+ *
+ * 很多博客在评论区滚动到可见区域后才加载评论表单。
+ * 这里只收集新插入节点中的输入框和可编辑区域（包括新挂载的 Shadow Root 内部，同源框架由框架的 load 事件处理），
+ * 按最小间隔合并处理，并限制每个页面的填充次数，避免拖慢频繁变动的页面
+ */
+
+import { logger } from './logger';
+import { isFormField } from './frameUtils';
+
+// 两次处理之间的最小间隔（毫秒）
+const FORM_WATCH_INTERVAL = 1000;
+
+// 每个页面最多触发的填充次数，用完后停止检测
+const FORM_WATCH_BUDGET = 10;
+
+// 每次处理最多检查的新增节点数量，超出的部分丢弃
+const MAX_PENDING_NODES = 500;
+
+/**
+ * @description: 表单出现检测的选项
+ * @interface FormWatcherOptions
+ * @property {Function} isRelevant - 判断输入框是否匹配已知的关键字或站点规则
+ * @property {Function} onFormsAppeared - 发现新的相关输入框时调用
+ */
+export interface FormWatcherOptions {
+  isRelevant: (element: Element) => boolean;
+  onFormsAppeared: (elements: Element[]) => Promise<void> | void;
+}
+
+/**
+ * @description: 表单出现检测器
+ * @interface FormWatcher
+ * @property {Function} start - 开始检测，已有的 Shadow Root 和同源框架文档需要一并传入
+ * @property {Function} stop - 停止检测
+ */
+export interface FormWatcher {
+  start: (roots: Array<Document | ShadowRoot>) => void;
+  stop: () => void;
+}
+
+/**
+ * @description 创建表单出现检测器
+ * @function createFormWatcher
+ * @param {FormWatcherOptions} options 检测选项
+ * @returns {FormWatcher} 检测器
+ */
+export function createFormWatcher(options: FormWatcherOptions): FormWatcher {
+  let observers: MutationObserver[] = [];
+  let observedRoots = new WeakSet<Node>();
+  let seenElements = new WeakSet<Element>();
+  let pendingNodes = new Set<Element>();
+  let budget = FORM_WATCH_BUDGET;
+  let lastFlush = 0;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const observe = (root: Document | ShadowRoot) => {
+    if (observedRoots.has(root)) return;
+    observedRoots.add(root);
+
+    const observer = new MutationObserver((mutations) => {
+      mutations.forEach(mutation => {
+        mutation.addedNodes.forEach(node => {
+          if (node.nodeType === Node.ELEMENT_NODE && pendingNodes.size < MAX_PENDING_NODES) {
+            pendingNodes.add(node as Element);
+          }
+        });
+      });
+      scheduleFlush();
+    });
+    observer.observe(root, { childList: true, subtree: true });
+    observers.push(observer);
+  };
+
+  // 收集元素中的输入框，遇到 Shadow Root 时开始观察其内部变化并继续收集
+  const scanElements = (elements: Element[], inputs: Element[]) => {
+    elements.forEach(element => {
+      if (isFormField(element)) {
+        inputs.push(element);
+      }
+
+      const shadowRoot = (element as any).shadowRoot as ShadowRoot | null;
+      if (shadowRoot && !observedRoots.has(shadowRoot)) {
+        observe(shadowRoot);
+        scanElements(Array.from(shadowRoot.querySelectorAll('*')), inputs);
+      }
+    });
+  };
+
+  const flush = () => {
+    flushTimer = null;
+    lastFlush = Date.now();
+
+    const nodes = Array.from(pendingNodes).filter(node => node.isConnected);
+    pendingNodes = new Set();
+
+    const inputs: Element[] = [];
+    nodes.forEach(node => scanElements([node, ...Array.from(node.querySelectorAll('*'))], inputs));
+
+    const candidates = Array.from(new Set(inputs)).filter(input => {
+      if (seenElements.has(input)) return false;
+      seenElements.add(input);
+      return options.isRelevant(input);
+    });
+    if (candidates.length === 0) return;
+
+    budget--;
+    logger.info(`发现 ${candidates.length} 个新出现的输入框，剩余检测次数 ${budget}`);
+    Promise.resolve(options.onFormsAppeared(candidates))
+      .catch(error => logger.error('填充新出现的输入框时出错', error));
+
+    if (budget <= 0) {
+      logger.info('表单出现检测次数已用完，停止检测');
+      stop();
+    }
+  };
+
+  // 限制处理频率：距离上次处理不足最小间隔时延后处理
+  const scheduleFlush = () => {
+    if (flushTimer || pendingNodes.size === 0) return;
+    const wait = Math.max(0, FORM_WATCH_INTERVAL - (Date.now() - lastFlush));
+    flushTimer = setTimeout(flush, wait);
+  };
+
+  const stop = () => {
+    observers.forEach(observer => observer.disconnect());
+    observers = [];
+    observedRoots = new WeakSet();
+    pendingNodes = new Set();
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+  };
+
+  const start = (roots: Array<Document | ShadowRoot>) => {
+    stop();
+    seenElements = new WeakSet();
+    budget = FORM_WATCH_BUDGET;
+    roots.forEach(root => {
+      // 已有的输入框已由常规填充处理过
+      root.querySelectorAll('input, textarea, [contenteditable]').forEach(input => seenElements.add(input));
+      observe(root);
+    });
+  };
+
+  return { start, stop };
+}
@@ -0,0 +1,160 @@
+/**
+ * @description  多框架填充协调，在后台统一决定各框架的填充许可和字段归属
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/frameCoordinator
+ *
+ * 内容脚本运行在页面的每个框架中，同源子框架由父框架直接遍历，
+ * 跨域框架各自扫描后把候选字段上报到这里，同一标签页中每种字段类型只交给得分最高的框架填充。
+ * 字段归属保存在 chrome.storage.session 中，后台 Service Worker 在填充过程中休眠重启后不会重复授予字段
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet, chromeStorageRemove } from './storageUtils';
+import { checkDomainInBlacklist, type DomainCheckResult } from './blacklistService';
+import { toPolicyUrl } from './urlPatternRules';
+
+/**
+ * @description: 字段类型的归属记录
+ * @interface FieldClaim
+ * @property {number} frameId - 获得该字段的框架ID
+ * @property {number} score - 该框架上报的匹配得分
+ */
+interface FieldClaim {
+  frameId: number;
+  score: number;
+}
+
+/**
+ * @description: 标签页的字段归属记录
+ * @interface TabFieldClaims
+ * @property {string} pageUrl - 记录所属的页面地址，页面地址变化后记录失效
+ * @property {Record<string, FieldClaim>} claims - 字段类型到归属的映射
+ */
+interface TabFieldClaims {
+  pageUrl: string;
+  claims: Record<string, FieldClaim>;
+}
+
+// 存储键名前缀，每个标签页的字段归属保存为 前缀 + 标签页ID
+const STORAGE_KEYS = {
+  FIELD_CLAIMS_PREFIX: 'easyfill_field_claims_'
+};
+
+// 字段归属的读写队列，多个框架同时申请时依次处理，避免读写交错时互相覆盖
+let claimQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * @description 将读写字段归属的操作加入队列，等待前面的操作完成后执行
+ * @function enqueueClaimTask
+ * @template T 操作结果的类型
+ * @param {() => Promise<T>} task 操作
+ * @returns {Promise<T>} 操作结果
+ */
+function enqueueClaimTask<T>(task: () => Promise<T>): Promise<T> {
+  const result = claimQueue.then(task);
+  claimQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * @description 检查框架是否允许填充，框架自身的网址和所在页面的网址都需要通过黑名单检查。
+ * 白名单按所在页面判断：允许的页面中嵌入的评论系统框架（如 Disqus）不需要单独加入白名单
+ * @function checkFrameAllowed
+ * @param {string} url 框架的网址
+ * @param {string} topUrl 所在页面（顶层框架）的网址，只知道域名时也可以传入域名
+ * @returns {Promise<DomainCheckResult>} 检查结果
+ */
+export async function checkFrameAllowed(url: string, topUrl: string): Promise<DomainCheckResult> {
+  const frameResult = await checkDomainInBlacklist(url);
+  if (!topUrl || topUrl === url) {
+    return frameResult;
+  }
+
+  const topResult = await checkDomainInBlacklist(topUrl);
+  const topHost = getHostname(topUrl);
+  if (!topResult.allowed) {
+    return { ...topResult, reason: `所在页面 ${topHost} 的${topResult.reason}` };
+  }
+  if (!frameResult.allowed && !frameResult.rule && topResult.list === 'userAllowlist') {
+    return { ...topResult, reason: `所在页面 ${topHost} 的${topResult.reason}` };
+  }
+  return frameResult;
+}
+
+/**
+ * @description 获取网址的域名，用于提示信息，无法解析时原样返回
+ * @function getHostname
+ * @param {string} url 网址或域名
+ * @returns {string} 域名
+ */
+function getHostname(url: string): string {
+  return toPolicyUrl(url)?.hostname || url;
+}
+
+/**
+ * @description 为框架申请字段类型。某字段类型尚无归属、已归属于该框架，
+ * 或该框架的得分高于当前归属框架时授予该框架
+ * @function claimFrameFields
+ * @param {number} tabId 标签页ID
+ * @param {string} pageUrl 标签页当前的页面地址
+ * @param {number} frameId 框架ID
+ * @param {Record<string, number>} candidates 字段类型到该框架最高得分的映射
+ * @returns {Promise<string[]>} 授予该框架的字段类型
+ */
+export function claimFrameFields(
+  tabId: number,
+  pageUrl: string,
+  frameId: number,
+  candidates: Record<string, number>
+): Promise<string[]> {
+  return enqueueClaimTask(async () => {
+    try {
+      const key = `${STORAGE_KEYS.FIELD_CLAIMS_PREFIX}${tabId}`;
+      const result = await chromeStorageGet<Record<string, TabFieldClaims | undefined>>([key], 'session');
+      // 同一标签页只保留当前页面的归属记录
+      const claims = result[key]?.pageUrl === pageUrl ? result[key]!.claims : {};
+
+      const granted: string[] = [];
+      Object.entries(candidates).forEach(([fieldType, score]) => {
+        const current = claims[fieldType];
+        if (!current || current.frameId === frameId || score > current.score) {
+          claims[fieldType] = { frameId, score };
+          granted.push(fieldType);
+        }
+      });
+      await chromeStorageSet({ [key]: { pageUrl, claims } as TabFieldClaims }, 'session');
+
+      const denied = Object.keys(candidates).filter(fieldType => !granted.includes(fieldType));
+      if (denied.length > 0) {
+        logger.info('部分字段已由其他框架填充', { tabId, frameId, denied });
+      }
+      return granted;
+    } catch (error) {
+      logger.error('申请字段归属失败', error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * @description 清除标签页的字段归属记录，清除失败时只记录日志
+ * @function releaseTabClaims
+ * @param {number} tabId 标签页ID
+ * @returns {Promise<void>}
+ */
+export function releaseTabClaims(tabId: number): Promise<void> {
+  return enqueueClaimTask(async () => {
+    try {
+      await chromeStorageRemove(`${STORAGE_KEYS.FIELD_CLAIMS_PREFIX}${tabId}`, 'session');
+    } catch (error) {
+      logger.error('清除字段归属记录失败', error);
+    }
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * @description  框架与文档工具，用于在内容脚本中遍历同源框架、判断跨域框架
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/frameUtils
+ *
+ * 同源框架中的元素属于另一个 window，instanceof 判断会失效，
+ * 因此这里的判断都基于 nodeType、tagName 和属性
+ */
+
+/**
+ * @description 获取同源框架的文档对象，跨域或尚未加载时返回 null
+ * @function getFrameDocument
+ * @param {Element} element 框架元素
+ * @returns {Document | null} 框架的文档对象
+ */
+export function getFrameDocument(element: Element): Document | null {
+  if (element.tagName !== 'IFRAME' && element.tagName !== 'FRAME') {
+    return null;
+  }
+  try {
+    return (element as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @description 判断当前框架是否由父框架直接遍历。
+ * 父框架与当前框架同源时，父框架的内容脚本可以直接访问当前文档，当前框架无需单独填充
+ * @function isFrameManagedByParent
+ * @returns {boolean} 是否由父框架遍历
+ */
+export function isFrameManagedByParent(): boolean {
+  if (window === window.top) {
+    return false;
+  }
+  try {
+    return !!window.parent.document;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @description 获取所在页面（顶层框架）的域名，跨域框架通过 ancestorOrigins 获取
+ * @function getTopDomain
+ * @returns {string} 顶层框架的域名，无法获取时返回空字符串
+ */
+export function getTopDomain(): string {
+  try {
+    return window.top?.location.hostname || '';
+  } catch {
+    const ancestorOrigins = window.location.ancestorOrigins;
+    if (ancestorOrigins && ancestorOrigins.length > 0) {
+      try {
+        return new URL(ancestorOrigins[ancestorOrigins.length - 1]).hostname;
+      } catch {
+        return '';
+      }
+    }
+    return '';
+  }
+}
+
+/**
+ * @description 判断节点是否为 Shadow Root
+ * @function isShadowRootNode
+ * @param {Node} node 节点
+ * @returns {boolean} 是否为 Shadow Root
+ */
+export function isShadowRootNode(node: Node): node is ShadowRoot {
+  return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node;
+}
+
+/**
+ * @description 判断元素是否为可填充的 input 或 textarea
+ * @function isFillableElement
+ * @param {Element} element 元素
+ * @returns {boolean} 是否可填充
+ */
+export function isFillableElement(element: Element): element is HTMLInputElement | HTMLTextAreaElement {
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA';
+}
+
+/**
+ * @description 判断元素是否为可编辑区域的根元素（contenteditable 编辑宿主），
+ * Quill、TipTap（ProseMirror）、CodeMirror 6 等编辑器都以此作为输入区域
+ * @function isEditableHost
+ * @param {Element} element 元素
+ * @returns {boolean} 是否为编辑宿主
+ */
+export function isEditableHost(element: Element): element is HTMLElement {
+  const value = element.getAttribute('contenteditable');
+  if (value === null || value === 'false') {
+    return false;
+  }
+  const parent = element.parentElement;
+  return !parent || !(parent as HTMLElement).isContentEditable;
+}
+
+/**
+ * @description 获取元素所在的编辑宿主，例如在编辑器内部的段落上右键时找到编辑器的根元素
+ * @function getEditableHost
+ * @param {Element} element 元素
+ * @returns {HTMLElement | null} 编辑宿主，元素不在可编辑区域中时返回 null
+ */
+export function getEditableHost(element: Element): HTMLElement | null {
+  let current: Element | null = element;
+  while (current) {
+    if (isEditableHost(current)) {
+      return current;
+    }
+    current = current.parentElement;
+  }
+  return null;
+}
+
+/**
+ * @description 判断元素是否可以填充：input、textarea 或可编辑区域
+ * @function isFormField
+ * @param {Element} element 元素
+ * @returns {boolean} 是否可以填充
+ */
+export function isFormField(element: Element): boolean {
+  return isFillableElement(element) || isEditableHost(element);
+}
@@ -0,0 +1,129 @@
+/**
+ * @description  IP 地址规则的单元测试
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/ipRules.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseIpAddress, parseIpRange, matchIpRange, isIpRuleLike, getIpRangeRatio } from './ipRules';
+
+/**
+ * @description 判断地址是否位于规则表示的网段内
+ * @function inRange
+ * @param {string} rule 网段规则
+ * @param {string} address 地址
+ * @returns {boolean} 是否位于网段内
+ */
+function inRange(rule: string, address: string): boolean {
+  const range = parseIpRange(rule);
+  const parsed = parseIpAddress(address);
+  if (!range || !parsed) throw new Error(`无法解析 ${rule} 或 ${address}`);
+  return matchIpRange(range, parsed);
+}
+
+describe('parseIpAddress', () => {
+  it('解析 IPv4 地址，拒绝越界和格式错误的地址', () => {
+    expect(parseIpAddress('192.168.1.10')).toEqual({ version: 4, bytes: [192, 168, 1, 10] });
+    expect(parseIpAddress('256.1.1.1')).toBeNull();
+    expect(parseIpAddress('1.2.3')).toBeNull();
+    expect(parseIpAddress('1.2.3.4.5')).toBeNull();
+  });
+
+  it('展开 IPv6 的 :: 缩写，不区分大小写', () => {
+    const expected = [0x20, 0x01, 0x0d, 0xb8, ...Array(11).fill(0), 1];
+    expect(parseIpAddress('2001:db8::1')?.bytes).toEqual(expected);
+    expect(parseIpAddress('2001:0DB8:0000:0000:0000:0000:0000:0001')?.bytes).toEqual(expected);
+    expect(parseIpAddress('::')?.bytes).toEqual(Array(16).fill(0));
+  });
+
+  it('接受网址中带方括号的 IPv6 地址', () => {
+    expect(parseIpAddress('[::1]')).toEqual({ version: 6, bytes: [...Array(15).fill(0), 1] });
+  });
+
+  it('IPv4 映射的 IPv6 地址视为对应的 IPv4 地址', () => {
+    expect(parseIpAddress('::ffff:192.168.1.10')).toEqual({ version: 4, bytes: [192, 168, 1, 10] });
+    expect(parseIpAddress('::ffff:c0a8:10a')).toEqual({ version: 4, bytes: [192, 168, 1, 10] });
+  });
+
+  it('拒绝多个 :: 和过多的分组', () => {
+    expect(parseIpAddress('1::2::3')).toBeNull();
+    expect(parseIpAddress('1:2:3:4:5:6:7:8:9')).toBeNull();
+    expect(parseIpAddress('1:2:3:4:5:6:7::8')).toBeNull();
+    expect(parseIpAddress('12345::1')).toBeNull();
+  });
+});
+
+describe('parseIpRange', () => {
+  it('没有前缀长度时表示单个地址', () => {
+    expect(parseIpRange('10.0.0.1')?.prefixLength).toBe(32);
+    expect(parseIpRange('::1')?.prefixLength).toBe(128);
+  });
+
+  it('拒绝超出地址长度的前缀和多余的斜杠', () => {
+    expect(parseIpRange('10.0.0.0/33')).toBeNull();
+    expect(parseIpRange('fe80::/129')).toBeNull();
+    expect(parseIpRange('10.0.0.0/8/8')).toBeNull();
+    expect(parseIpRange('10.0.0.0/')).toBeNull();
+  });
+
+  it('IPv4 映射地址的网段按 IPv4 的前缀长度计算', () => {
+    expect(parseIpRange('::ffff:10.0.0.0/104')).toEqual({
+      address: { version: 4, bytes: [10, 0, 0, 0] },
+      prefixLength: 8
+    });
+    expect(parseIpRange('::ffff:10.0.0.0/95')).toBeNull();
+  });
+});
+
+describe('matchIpRange', () => {
+  it('匹配 CIDR 网段的首尾地址，不匹配网段之外的相邻地址', () => {
+    expect(inRange('172.16.0.0/12', '172.16.0.0')).toBe(true);
+    expect(inRange('172.16.0.0/12', '172.31.255.255')).toBe(true);
+    expect(inRange('172.16.0.0/12', '172.15.255.255')).toBe(false);
+    expect(inRange('172.16.0.0/12', '172.32.0.0')).toBe(false);
+  });
+
+  it('前缀不是 8 的倍数时只比较前缀内的位', () => {
+    expect(inRange('100.64.0.0/10', '100.127.255.255')).toBe(true);
+    expect(inRange('100.64.0.0/10', '100.128.0.0')).toBe(false);
+    expect(inRange('fe80::/10', 'febf::1')).toBe(true);
+    expect(inRange('fe80::/10', 'fec0::1')).toBe(false);
+  });
+
+  it('/0 匹配同一版本的全部地址，/32 只匹配地址本身', () => {
+    expect(inRange('0.0.0.0/0', '255.255.255.255')).toBe(true);
+    expect(inRange('192.168.1.10/32', '192.168.1.10')).toBe(true);
+    expect(inRange('192.168.1.10/32', '192.168.1.11')).toBe(false);
+  });
+
+  it('IPv4 规则不匹配 IPv6 地址，映射地址按 IPv4 匹配', () => {
+    expect(inRange('0.0.0.0/0', '::1')).toBe(false);
+    expect(inRange('10.0.0.0/8', '::ffff:10.1.2.3')).toBe(true);
+    expect(inRange('fc00::/7', 'fdff::1')).toBe(true);
+    expect(inRange('fc00::/7', 'fe00::1')).toBe(false);
+  });
+});
+
+describe('isIpRuleLike', () => {
+  it('区分 IP 规则和域名、网址规则', () => {
+    expect(isIpRuleLike('10.0.0.0/8')).toBe(true);
+    expect(isIpRuleLike('[::1]')).toBe(true);
+    expect(isIpRuleLike('fe80::/10')).toBe(true);
+    expect(isIpRuleLike('example.com/admin')).toBe(false);
+    expect(isIpRuleLike('https://[::1]/')).toBe(false);
+  });
+});
+
+describe('getIpRangeRatio', () => {
+  it('按前缀长度占地址长度的比例计算', () => {
+    expect(getIpRangeRatio(parseIpRange('10.0.0.0/8')!)).toBe(0.25);
+    expect(getIpRangeRatio(parseIpRange('::1')!)).toBe(1);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * @description  IP 地址规则，解析并匹配 IPv4、IPv6 地址和 CIDR 网段
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/ipRules
+ *
+ * 支持的写法：192.168.1.10、10.0.0.0/8、::1、[::1]、fe80::/10、::ffff:192.168.1.10。
+ * 地址按字节比较，IPv4 映射的 IPv6 地址（::ffff:a.b.c.d）视为对应的 IPv4 地址
+ */
+
+/**
+ * @description: 解析后的 IP 地址
+ * @interface IpAddress
+ * @property {number} version - 4 或 6
+ * @property {number[]} bytes - 地址的各字节，IPv4 为 4 个，IPv6 为 16 个
+ */
+export interface IpAddress {
+  version: 4 | 6;
+  bytes: number[];
+}
+
+/**
+ * @description: IP 网段
+ * @interface IpRange
+ * @property {IpAddress} address - 网段地址
+ * @property {number} prefixLength - 前缀长度，单个地址为 32 或 128
+ */
+export interface IpRange {
+  address: IpAddress;
+  prefixLength: number;
+}
+
+// 内网、本机和链路本地地址，写法与名单规则相同
+export const PRIVATE_NETWORK_RULES: string[] = [
+  '127.0.0.0/8',
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '169.254.0.0/16',
+  '100.64.0.0/10',
+  '0.0.0.0/8',
+  '::1',
+  '::',
+  'fc00::/7',
+  'fe80::/10',
+  '*.localhost',
+  '*.local',
+  '*.internal',
+  '*.lan',
+  '*.intranet',
+  '*.home.arpa'
+];
+
+// 看起来像 IPv4 地址或网段：只包含数字和点
+const IPV4_LIKE_PATTERN = /^[\d.]+(\/\d+)?$/;
+
+// 看起来像 IPv6 地址或网段：只包含十六进制字符、冒号和点，且至少有两个冒号
+const IPV6_LIKE_PATTERN = /^\[?[0-9a-f]*:[0-9a-f]*:[0-9a-f:.]*\]?(\/\d+)?$/i;
+
+/**
+ * @description 解析 IPv4 地址的四个字节
+ * @function parseIPv4Bytes
+ * @param {string} text 点分十进制地址
+ * @returns {number[] | null} 各字节，格式不正确时返回null
+ */
+function parseIPv4Bytes(text: string): number[] | null {
+  const parts = text.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(Number);
+  return bytes.every(byte => byte <= 255) ? bytes : null;
+}
+
+/**
+ * @description 解析 IPv6 地址的十六个字节，支持 :: 缩写和末尾嵌入的 IPv4 地址
+ * @function parseIPv6Bytes
+ * @param {string} text IPv6 地址
+ * @returns {number[] | null} 各字节，格式不正确时返回null
+ */
+function parseIPv6Bytes(text: string): number[] | null {
+  let address = text;
+
+  // 末尾嵌入的 IPv4 地址转换为两组十六进制数
+  if (address.includes('.')) {
+    const lastColon = address.lastIndexOf(':');
+    const embedded = parseIPv4Bytes(address.slice(lastColon + 1));
+    if (lastColon < 0 || !embedded) return null;
+    address = `${address.slice(0, lastColon + 1)}${((embedded[0] << 8) | embedded[1]).toString(16)}:${((embedded[2] << 8) | embedded[3]).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  if (halves.length === 1 ? head.length !== 8 : head.length + tail.length > 7) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return null;
+  }
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * @description 判断 IPv6 地址是否为 IPv4 映射地址（::ffff:a.b.c.d）
+ * @function isIPv4Mapped
+ * @param {number[]} bytes IPv6 地址的各字节
+ * @returns {boolean} 是否为映射地址
+ */
+function isIPv4Mapped(bytes: number[]): boolean {
+  return bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+}
+
+/**
+ * @description 解析 IP 地址，IPv6 地址可以带方括号（网址中的写法）
+ * @function parseIpAddress
+ * @param {string} text IP 地址
+ * @returns {IpAddress | null} 解析后的地址，不是合法的 IP 地址时返回null
+ */
+export function parseIpAddress(text: string): IpAddress | null {
+  const trimmed = text.trim();
+  const unbracketed = trimmed.startsWith('[') && trimmed.endsWith(']') ? trimmed.slice(1, -1) : trimmed;
+
+  if (!unbracketed.includes(':')) {
+    const bytes = parseIPv4Bytes(unbracketed);
+    return bytes ? { version: 4, bytes } : null;
+  }
+
+  const bytes = parseIPv6Bytes(unbracketed);
+  if (!bytes) return null;
+  return isIPv4Mapped(bytes) ? { version: 4, bytes: bytes.slice(12) } : { version: 6, bytes };
+}
+
+/**
+ * @description 判断规则是否为 IP 地址或网段的写法，用于区分网段的 /前缀长度 和网址路径
+ * @function isIpRuleLike
+ * @param {string} rule 规则
+ * @returns {boolean} 是否像 IP 规则
+ */
+export function isIpRuleLike(rule: string): boolean {
+  const trimmed = rule.trim();
+  return IPV4_LIKE_PATTERN.test(trimmed) || IPV6_LIKE_PATTERN.test(trimmed);
+}
+
+/**
+ * @description 解析 IP 地址或 CIDR 网段规则，没有前缀长度时表示单个地址
+ * @function parseIpRange
+ * @param {string} rule 规则，如 10.0.0.0/8、::1
+ * @returns {IpRange | null} 解析后的网段，格式不正确时返回null
+ */
+export function parseIpRange(rule: string): IpRange | null {
+  const [addressText, prefixText, ...extra] = rule.trim().split('/');
+  if (extra.length > 0 || (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText))) {
+    return null;
+  }
+
+  const address = parseIpAddress(addressText);
+  if (!address) return null;
+
+  const bits = address.version === 4 ? 32 : 128;
+  let prefixLength = prefixText === undefined ? bits : Number(prefixText);
+  // IPv4 映射地址的网段按 IPv4 的前缀长度计算
+  if (address.version === 4 && addressText.includes(':') && prefixText !== undefined) {
+    prefixLength -= 96;
+  }
+  if (prefixLength < 0 || prefixLength > bits) return null;
+
+  return { address, prefixLength };
+}
+
+/**
+ * @description 判断地址是否位于网段内
+ * @function matchIpRange
+ * @param {IpRange} range 网段
+ * @param {IpAddress} address 地址
+ * @returns {boolean} 是否位于网段内
+ */
+export function matchIpRange(range: IpRange, address: IpAddress): boolean {
+  if (range.address.version !== address.version) return false;
+
+  const fullBytes = Math.floor(range.prefixLength / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (range.address.bytes[i] !== address.bytes[i]) return false;
+  }
+
+  const remainingBits = range.prefixLength % 8;
+  if (remainingBits === 0) return true;
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (range.address.bytes[fullBytes] & mask) === (address.bytes[fullBytes] & mask);
+}
+
+/**
+ * @description 获取网段占地址长度的比例，1 表示单个地址
+ * @function getIpRangeRatio
+ * @param {IpRange} range 网段
+ * @returns {number} 0 到 1 之间的比例
+ */
+export function getIpRangeRatio(range: IpRange): number {
+  return range.prefixLength / (range.address.version === 4 ? 32 : 128);
+}
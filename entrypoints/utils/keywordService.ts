@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-04-13
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -31,11 +31,28 @@ export interface KeywordSets {
 const CACHE_KEY = 'easyfill_keywords_cache';
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 小时
 
+/**
+ * @description 校验原始关键字数据格式：每个键对应一个字符串数组，键即字段类型，
+ * 除 name/email/url 外允许任意扩展字段类型（如 qq、github、phone）
+ * @function isValidKeywordData
+ * @param {any} data 待校验的数据
+ * @returns {boolean} 是否有效
+ */
+export function isValidKeywordData(data: any): boolean {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return false;
+  }
+  const entries = Object.entries(data);
+  return entries.length > 0 && entries.every(([, value]) =>
+    Array.isArray(value) && value.every(keyword => typeof keyword === 'string')
+  );
+}
+
 // 关键字缓存配置
 const KEYWORDS_CACHE_CONFIG: CacheConfig = {
   key: CACHE_KEY,
   ttl: CACHE_TTL,
-  validator: (data: any) => data && typeof data === 'object' && data.name && data.email && data.url
+  validator: isValidKeywordData
 };
 
 // 默认的关键字集合（备用）
@@ -63,6 +80,31 @@ function convertJsonToKeywordSets(jsonData: Record<string, string[]>): KeywordSe
   return result as KeywordSets;
 }
 
+/**
+ * @description 将额外的关键字合并到关键字集合中，返回新的集合，不修改原集合
+ * @function mergeKeywordSets
+ * @param {KeywordSets} keywordSets 原关键字集合
+ * @param {Record<string, string[]>} extraKeywords 额外的关键字，键为字段类型
+ * @returns {KeywordSets} 合并后的关键字集合
+ */
+export function mergeKeywordSets(keywordSets: KeywordSets, extraKeywords: Record<string, string[]>): KeywordSets {
+  const result: Record<string, Set<string>> = {};
+
+  for (const key in keywordSets) {
+    result[key] = new Set(keywordSets[key]);
+  }
+  for (const key in extraKeywords) {
+    const set = result[key] || new Set<string>();
+    extraKeywords[key]
+      .map(keyword => keyword.trim().toLowerCase())
+      .filter(keyword => keyword)
+      .forEach(keyword => set.add(keyword));
+    result[key] = set;
+  }
+
+  return result as KeywordSets;
+}
+
 /**
  * @description 加载本地关键字集合，优先使用本地文件，如果加载失败则使用内置备份
  * @function loadDefaultKeywordSets
@@ -285,7 +327,7 @@ export async function getKeywordSets(): Promise<KeywordSets> {
       defaultKeywordSets = await loadDefaultKeywordSets();
     }
 
-    if (defaultKeywordSets && (defaultKeywordSets.name.size > 0 || defaultKeywordSets.email.size > 0 || defaultKeywordSets.url.size > 0)) {
+    if (defaultKeywordSets && Object.values(defaultKeywordSets).some(set => set.size > 0)) {
        logger.info('使用本地默认的关键字集合', {
          source: 'local_default',
          url: chrome.runtime.getURL('data/keywords.json'),
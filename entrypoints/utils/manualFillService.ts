@@ -0,0 +1,194 @@
+/**
+ * @description  手动填充入口，管理右键菜单和快捷键，并通知标签页中的内容脚本执行填充
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/manualFillService
+ *
+ * 手动填充由用户主动触发，即使该网站关闭了自动填充也会执行
+ */
+
+import { logger } from './logger';
+import { getProfileStore } from './profileService';
+
+// 快捷键命令名称，与 wxt.config.ts 中 commands 的键保持一致
+export const FILL_PAGE_COMMAND = 'fill-page';
+
+// 右键菜单ID
+const MENU_IDS = {
+  FILL: 'easyfill-fill',
+  FILL_WITH_PROFILE: 'easyfill-fill-with-profile',
+  PROFILE_PREFIX: 'easyfill-profile:',
+  INSERT_TEMPLATE: 'easyfill-insert-template'
+};
+
+// 右键菜单的重建队列，安装事件和身份变化同时触发时依次重建，避免删除和创建交错导致菜单ID重复
+let rebuildQueue: Promise<void> = Promise.resolve();
+
+/**
+ * @description: 发送给内容脚本的手动填充选项
+ * @interface ManualFillOptions
+ * @property {'page' | 'field'} scope - 填充整个页面，或只填充右键点击的输入框
+ * @property {string} [profileId] - 指定使用的身份ID，未指定时按域名规则选择
+ */
+export interface ManualFillOptions {
+  scope: 'page' | 'field';
+  profileId?: string;
+}
+
+/**
+ * @description 重新创建右键菜单，身份列表变化后需要重新创建“使用身份填充”子菜单。
+ * 重建操作依次执行，前一次重建完成后才开始下一次
+ * @function rebuildFillContextMenus
+ * @returns {Promise<void>}
+ */
+export function rebuildFillContextMenus(): Promise<void> {
+  rebuildQueue = rebuildQueue.then(createFillContextMenus);
+  return rebuildQueue;
+}
+
+/**
+ * @description 删除全部右键菜单后按当前身份列表重新创建，失败时只记录日志
+ * @function createFillContextMenus
+ * @returns {Promise<void>}
+ */
+async function createFillContextMenus(): Promise<void> {
+  try {
+    // 先读取身份列表，读取失败时保留现有菜单
+    const store = await getProfileStore();
+    await chrome.contextMenus.removeAll();
+
+    chrome.contextMenus.create({
+      id: MENU_IDS.FILL,
+      title: '使用 EasyFill 填充',
+      contexts: ['page', 'editable']
+    });
+
+    chrome.contextMenus.create({
+      id: MENU_IDS.INSERT_TEMPLATE,
+      title: '插入评论模板',
+      contexts: ['editable']
+    });
+
+    if (store.profiles.length > 1) {
+      chrome.contextMenus.create({
+        id: MENU_IDS.FILL_WITH_PROFILE,
+        title: '使用身份填充',
+        contexts: ['page', 'editable']
+      });
+      store.profiles.forEach(profile => {
+        chrome.contextMenus.create({
+          id: `${MENU_IDS.PROFILE_PREFIX}${profile.id}`,
+          parentId: MENU_IDS.FILL_WITH_PROFILE,
+          title: profile.id === store.defaultProfileId ? `${profile.profileName}（默认）` : profile.profileName,
+          contexts: ['page', 'editable']
+        });
+      });
+    }
+
+    logger.info('右键菜单已更新', { profileCount: store.profiles.length });
+  } catch (error) {
+    logger.error('创建右键菜单失败', error);
+  }
+}
+
+/**
+ * @description 通知标签页中的内容脚本执行手动填充
+ * @function sendManualFill
+ * @param {number} tabId 标签页ID
+ * @param {ManualFillOptions} options 填充选项
+ * @param {number} [frameId] 目标框架ID，未指定时发送给所有框架
+ * @returns {Promise<void>}
+ */
+async function sendManualFill(tabId: number, options: ManualFillOptions, frameId?: number): Promise<void> {
+  try {
+    await chrome.tabs.sendMessage(
+      tabId,
+      { action: 'manualFill', data: options },
+      frameId !== undefined ? { frameId } : {}
+    );
+    logger.info('已发送手动填充请求', { tabId, frameId, ...options });
+  } catch (error) {
+    // 浏览器内置页面等无法注入内容脚本的页面会走到这里
+    logger.warn('发送手动填充请求失败，当前页面可能不支持填充', { tabId, error });
+  }
+}
+
+/**
+ * @description 通知右键点击所在框架的内容脚本插入评论模板
+ * @function sendInsertCommentTemplate
+ * @param {number} tabId 标签页ID
+ * @param {number} frameId 框架ID
+ * @returns {Promise<void>}
+ */
+async function sendInsertCommentTemplate(tabId: number, frameId: number): Promise<void> {
+  try {
+    await chrome.tabs.sendMessage(tabId, { action: 'insertCommentTemplate' }, { frameId });
+    logger.info('已发送插入评论模板请求', { tabId, frameId });
+  } catch (error) {
+    logger.warn('发送插入评论模板请求失败，当前页面可能不支持填充', { tabId, error });
+  }
+}
+
+/**
+ * @description 处理右键菜单点击，在输入框上点击时只填充该输入框
+ * @function handleFillMenuClick
+ * @param {chrome.contextMenus.OnClickData} info 菜单点击信息
+ * @param {chrome.tabs.Tab} [tab] 所在标签页
+ * @returns {Promise<void>}
+ */
+export async function handleFillMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<void> {
+  if (!tab?.id) return;
+
+  const menuItemId = String(info.menuItemId);
+  if (menuItemId === MENU_IDS.INSERT_TEMPLATE) {
+    await sendInsertCommentTemplate(tab.id, info.frameId ?? 0);
+    return;
+  }
+
+  let profileId: string | undefined;
+  if (menuItemId.startsWith(MENU_IDS.PROFILE_PREFIX)) {
+    profileId = menuItemId.substring(MENU_IDS.PROFILE_PREFIX.length);
+  } else if (menuItemId !== MENU_IDS.FILL) {
+    return;
+  }
+
+  if (info.editable) {
+    await sendManualFill(tab.id, { scope: 'field', profileId }, info.frameId);
+  } else {
+    await sendManualFill(tab.id, { scope: 'page', profileId });
+  }
+}
+
+/**
+ * @description 处理快捷键命令，填充当前标签页
+ * @function handleFillCommand
+ * @param {string} command 命令名称
+ * @returns {Promise<void>}
+ */
+export async function handleFillCommand(command: string): Promise<void> {
+  if (command !== FILL_PAGE_COMMAND) return;
+
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) {
+    logger.warn('未找到当前标签页，无法执行快捷键填充');
+    return;
+  }
+  await sendManualFill(tab.id, { scope: 'page' });
+}
+
+/**
+ * @description 立即填充指定标签页的整个页面，用于工具栏弹窗
+ * @function fillTabNow
+ * @param {number} tabId 标签页ID
+ * @param {string} [profileId] 指定使用的身份ID
+ * @returns {Promise<void>}
+ */
+export async function fillTabNow(tabId: number, profileId?: string): Promise<void> {
+  await sendManualFill(tabId, { scope: 'page', profileId });
+}
@@ -0,0 +1,89 @@
+/**
+ * @description  页面导航检测，识别单页应用（PJAX、Vue Router、Astro 等）切换页面
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/navigationService
+ *
+ * 内容脚本运行在隔离环境中，改写 history.pushState 无法拦截页面自身的调用。
+ * 后台通过 webNavigation 获取同文档导航并转发给对应框架，
+ * 内容脚本同时监听 Navigation API 的 currententrychange 事件，两路事件合并去抖后只触发一次
+ */
+
+import { logger } from './logger';
+
+// 后台转发给内容脚本的消息动作
+const PAGE_NAVIGATED_ACTION = 'pageNavigated';
+
+// 导航事件去抖延迟，单页应用切换页面时通常连续触发多次 replaceState
+const NAVIGATION_DEBOUNCE_DELAY = 300;
+
+/**
+ * @description: Navigation API 的最小类型声明，TypeScript 的 DOM 类型中尚未包含
+ * @interface NavigationLike
+ */
+interface NavigationLike {
+  addEventListener(type: 'currententrychange', listener: () => void): void;
+}
+
+/**
+ * @description 在后台转发同文档导航事件（history API 和锚点变化）给发生导航的框架
+ * @function setupNavigationRelay
+ */
+export function setupNavigationRelay(): void {
+  const relay = (details: { tabId: number, frameId: number, url: string }) => {
+    chrome.tabs.sendMessage(
+      details.tabId,
+      { action: PAGE_NAVIGATED_ACTION, data: { url: details.url } },
+      { frameId: details.frameId }
+    ).catch(() => {
+      // 框架中没有内容脚本（例如浏览器内置页面）时忽略
+    });
+  };
+
+  chrome.webNavigation.onHistoryStateUpdated.addListener(relay);
+  chrome.webNavigation.onReferenceFragmentUpdated.addListener(relay);
+}
+
+/**
+ * @description 在内容脚本中监听页面导航，多个来源的事件去抖合并，
+ * 只有地址确实发生变化时才调用回调
+ * @function onPageNavigated
+ * @param {(url: string) => void} callback 导航完成后的回调
+ */
+export function onPageNavigated(callback: (url: string) => void): void {
+  let lastUrl = window.location.href;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = (source: string) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      const url = window.location.href;
+      if (url === lastUrl) return;
+      logger.info('检测到页面导航', { source, oldUrl: lastUrl, newUrl: url });
+      lastUrl = url;
+      callback(url);
+    }, NAVIGATION_DEBOUNCE_DELAY);
+  };
+
+  chrome.runtime.onMessage.addListener((request) => {
+    if (request.action === PAGE_NAVIGATED_ACTION) {
+      schedule('webNavigation');
+    }
+  });
+
+  const navigation = (window as unknown as { navigation?: NavigationLike }).navigation;
+  if (navigation) {
+    navigation.addEventListener('currententrychange', () => schedule('navigation'));
+  } else {
+    // 不支持 Navigation API 的浏览器退回到原生事件
+    window.addEventListener('popstate', () => schedule('popstate'));
+    window.addEventListener('hashchange', () => schedule('hashchange'));
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @description  名单规则编译的单元测试
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/policyMatcher.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileRuleList, findCompiledMatch } from './policyMatcher';
+import { parseUrlRule, matchUrlRule } from './urlPatternRules';
+
+/**
+ * @description 查找命中网址的规则
+ * @function findRule
+ * @param {string[]} rules 名单中的规则
+ * @param {string} url 网址
+ * @returns {string | null} 命中的原始规则，没有命中时返回null
+ */
+function findRule(rules: string[], url: string): string | null {
+  return findCompiledMatch(compileRuleList(rules), new URL(url))?.rule ?? null;
+}
+
+describe('compileRuleList', () => {
+  it('按规则类型分组，忽略无法解析的规则', () => {
+    const list = compileRuleList(['example.com', '*.example.com', '10.0.0.0/8', '/login/', '<all_urls>', '999.1.1.1']);
+    expect(list.size).toBe(5);
+    expect(list.hostRules.get('example.com')).toHaveLength(2);
+    expect(list.ipRules).toHaveLength(1);
+    expect(list.genericRules).toHaveLength(2);
+  });
+
+  it('公共后缀规则不包含子域名', () => {
+    const list = compileRuleList(['github.io'], hostname => hostname === 'github.io');
+    expect(findCompiledMatch(list, new URL('https://someone.github.io/'))).toBeNull();
+  });
+});
+
+describe('findCompiledMatch', () => {
+  it('空名单和没有命中时返回 null', () => {
+    expect(findRule([], 'https://example.com/')).toBeNull();
+    expect(findRule(['example.org'], 'https://example.com/')).toBeNull();
+  });
+
+  it('逐级查找上级域名的规则', () => {
+    expect(findRule(['example.com'], 'https://a.b.example.com/')).toBe('example.com');
+    expect(findRule(['https://example.com'], 'https://a.example.com/')).toBeNull();
+  });
+
+  it('返回范围最小的规则：子域名和路径规则优先于上级域名', () => {
+    const rules = ['example.com', 'blog.example.com', 'example.com/admin/*'];
+    expect(findRule(rules, 'https://blog.example.com/')).toBe('blog.example.com');
+    expect(findRule(rules, 'https://example.com/admin/users')).toBe('example.com/admin/*');
+    expect(findRule(rules, 'https://example.com/about')).toBe('example.com');
+  });
+
+  it('同一域名下更具体的规则未命中时继续检查其他规则', () => {
+    expect(findRule(['example.com/admin/*', 'example.com'], 'https://example.com/')).toBe('example.com');
+  });
+
+  it('IP 规则只在以 IP 地址访问时检查，单个地址优先于网段', () => {
+    const rules = ['10.0.0.0/8', '10.0.0.5'];
+    expect(findRule(rules, 'http://10.0.0.5/')).toBe('10.0.0.5');
+    expect(findRule(rules, 'http://10.1.2.3/')).toBe('10.0.0.0/8');
+    expect(findRule(['::1'], 'http://[::1]:3000/')).toBe('::1');
+    expect(findRule(rules, 'http://example.com/')).toBeNull();
+  });
+
+  it('正则表达式规则优先于域名规则，<all_urls> 只在没有其他命中时生效', () => {
+    const rules = ['<all_urls>', 'example.com', '/\\/login/'];
+    expect(findRule(rules, 'https://example.com/login')).toBe('/\\/login/');
+    expect(findRule(rules, 'https://example.com/')).toBe('example.com');
+    expect(findRule(rules, 'https://other.org/')).toBe('<all_urls>');
+  });
+
+  it('与逐条匹配的结果一致', () => {
+    const rules = ['example.com', '*.example.com/path/*', 'https://www.example.com', '192.168.0.0/16', '/\\?debug=1/'];
+    const urls = [
+      'https://example.com/',
+      'https://www.example.com/path/a',
+      'http://www.example.com/',
+      'http://192.168.1.1/?debug=1',
+      'https://other.org/'
+    ];
+    const list = compileRuleList(rules);
+    urls.forEach(url => {
+      const target = new URL(url);
+      const matched = rules.filter(rule => matchUrlRule(parseUrlRule(rule)!, target));
+      const found = findCompiledMatch(list, target);
+      expect(found === null).toBe(matched.length === 0);
+      if (found) expect(matched).toContain(found.rule);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @description  名单规则编译，把黑名单、白名单编译为按域名索引的查找表
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/policyMatcher
+ *
+ * 每次填充、每个框架和单页应用的每次导航都要检查名单，逐条解析并匹配规则的开销随官方黑名单增长。
+ * 编译后的查找表按规则的域名建立哈希索引，查找时从完整域名开始逐级去掉最左侧的一级，
+ * 相当于在倒序的域名标签树中向上查找，耗时只与网址的域名级数有关，与规则数量无关。
+ * 正则表达式、<all_urls> 和任意域名的规则无法按域名索引，每次都需要检查，通常数量很少
+ */
+
+import { parseUrlRule, matchUrlRule, getUrlRuleSpecificity, type ParsedUrlRule } from './urlPatternRules';
+
+/**
+ * @description: 编译后的单条规则
+ * @interface CompiledRule
+ * @property {string} rule - 原始规则
+ * @property {ParsedUrlRule} parsed - 解析后的规则
+ * @property {number} specificity - 规则的具体程度
+ */
+export interface CompiledRule {
+  rule: string;
+  parsed: ParsedUrlRule;
+  specificity: number;
+}
+
+/**
+ * @description: 编译后的名单
+ * @interface CompiledRuleList
+ * @property {Map<string, CompiledRule[]>} hostRules - 按域名索引的匹配模式规则，每组按具体程度从高到低排列
+ * @property {CompiledRule[]} ipRules - IP 地址和网段规则，只在以 IP 地址访问时检查
+ * @property {CompiledRule[]} genericRules - 无法按域名索引的规则
+ * @property {number} size - 有效规则数，无法解析的规则不计入
+ */
+export interface CompiledRuleList {
+  hostRules: Map<string, CompiledRule[]>;
+  ipRules: CompiledRule[];
+  genericRules: CompiledRule[];
+  size: number;
+}
+
+/**
+ * @description 编译名单，无法解析的规则会被忽略
+ * @function compileRuleList
+ * @param {string[]} rules 名单中的规则
+ * @param {(hostname: string) => boolean} [isPublicSuffix] 判断域名是否为公共后缀
+ * @returns {CompiledRuleList} 编译后的名单
+ */
+export function compileRuleList(rules: string[], isPublicSuffix?: (hostname: string) => boolean): CompiledRuleList {
+  const list: CompiledRuleList = { hostRules: new Map(), ipRules: [], genericRules: [], size: 0 };
+
+  rules.forEach(rule => {
+    const parsed = parseUrlRule(rule, isPublicSuffix);
+    if (!parsed) return;
+
+    const compiled: CompiledRule = { rule, parsed, specificity: getUrlRuleSpecificity(parsed) };
+    list.size++;
+    if (parsed.kind === 'ip') {
+      list.ipRules.push(compiled);
+    } else if (parsed.kind === 'pattern' && parsed.host !== '*') {
+      const group = list.hostRules.get(parsed.host!) || [];
+      group.push(compiled);
+      list.hostRules.set(parsed.host!, group);
+    } else {
+      list.genericRules.push(compiled);
+    }
+  });
+
+  // 同一组内按具体程度从高到低排列，具体程度相同时保持名单中的顺序
+  list.hostRules.forEach(group => group.sort((a, b) => b.specificity - a.specificity));
+  list.ipRules.sort((a, b) => b.specificity - a.specificity);
+  list.genericRules.sort((a, b) => b.specificity - a.specificity);
+  return list;
+}
+
+/**
+ * @description 在已排序的一组规则中查找比当前结果更具体且命中网址的第一条规则
+ * @function findInGroup
+ * @param {CompiledRule[]} group 按具体程度从高到低排列的规则
+ * @param {URL} url 网址
+ * @param {CompiledRule | null} best 当前命中的规则
+ * @returns {CompiledRule | null} 新的命中结果
+ */
+function findInGroup(group: CompiledRule[], url: URL, best: CompiledRule | null): CompiledRule | null {
+  for (const candidate of group) {
+    if (best && candidate.specificity <= best.specificity) break;
+    if (matchUrlRule(candidate.parsed, url)) return candidate;
+  }
+  return best;
+}
+
+/**
+ * @description 在编译后的名单中查找命中网址且范围最小的规则
+ * @function findCompiledMatch
+ * @param {CompiledRuleList} list 编译后的名单
+ * @param {URL} url 网址
+ * @returns {CompiledRule | null} 命中的规则，没有命中时返回null
+ */
+export function findCompiledMatch(list: CompiledRuleList, url: URL): CompiledRule | null {
+  if (list.size === 0) return null;
+
+  const hostname = url.hostname.toLowerCase();
+  let best: CompiledRule | null = null;
+
+  // 完整域名及其每一级上级域名，如 a.b.example.com、b.example.com、example.com、com
+  let suffix = hostname;
+  while (suffix) {
+    const group = list.hostRules.get(suffix);
+    if (group) best = findInGroup(group, url, best);
+    const dotIndex = suffix.indexOf('.');
+    suffix = dotIndex >= 0 ? suffix.slice(dotIndex + 1) : '';
+  }
+
+  if (list.ipRules.length > 0 && (hostname.startsWith('[') || /^[\d.]+$/.test(hostname))) {
+    best = findInGroup(list.ipRules, url, best);
+  }
+  return findInGroup(list.genericRules, url, best);
+}
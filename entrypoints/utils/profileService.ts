@@ -0,0 +1,588 @@
+/**
+ * @description  身份配置处理，用于管理多套填充身份以及按域名选择身份的规则
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/profileService
+ *
+ * 身份保存在 chrome.storage.sync 中，以便在多台设备间同步。同步存储的单项上限为 8 KB，
+ * 因此每个身份单独加密保存为一项，另有一个索引项保存身份顺序、默认身份和域名规则
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet, chromeStorageRemove, getEncryptedStorageData } from './storageUtils';
+import { encryptData, decryptData } from './cryptoUtils';
+import { matchWildcardDomain } from './blacklistService';
+import { normalizeFormPreferences, type FormPreferences } from './formPreferences';
+
+// 存储键名常量
+const STORAGE_KEYS = {
+  PROFILE_INDEX: 'easyfill_profile_index',
+  // 单个身份的存储键前缀，后接身份ID
+  PROFILE_ITEM_PREFIX: 'easyfill_profile_item_',
+  // 旧版本把所有身份保存在一项中
+  LEGACY_PROFILES: 'easyfill_profiles',
+  // 旧版本的单身份存储键
+  LEGACY_NAME: 'name',
+  LEGACY_EMAIL: 'email',
+  LEGACY_URL: 'url'
+};
+
+// 同步存储单项的大小上限（字节），按键名长度加 JSON 序列化后的值长度计算
+const SYNC_QUOTA_BYTES_PER_ITEM = chrome.storage?.sync?.QUOTA_BYTES_PER_ITEM || 8192;
+
+// 默认身份名称
+const DEFAULT_PROFILE_NAME = '默认身份';
+
+// 内置字段类型，对应身份中的固定字段
+export const BUILTIN_FIELD_TYPES = ['name', 'email', 'url'];
+
+/**
+ * @description: 自定义字段接口
+ * @interface CustomField
+ * @property {string} id - 字段唯一标识
+ * @property {string} fieldType - 字段类型，与 keywords.json 中的键对应，例如 qq、github
+ * @property {string} label - 字段显示名称
+ * @property {string} value - 填充值
+ * @property {string[]} keywords - 额外的匹配关键字，与关键字源中同类型的关键字合并使用
+ */
+export interface CustomField {
+  id: string;
+  fieldType: string;
+  label: string;
+  value: string;
+  keywords: string[];
+}
+
+/**
+ * @description: 身份配置接口
+ * @interface UserProfile
+ * @property {string} id - 身份唯一标识
+ * @property {string} profileName - 身份名称，例如“个人”、“工作”
+ * @property {string} name - 昵称
+ * @property {string} email - 邮箱
+ * @property {string} url - 网址
+ * @property {CustomField[]} customFields - 自定义字段列表
+ * @property {FormPreferences} formPreferences - 复选框、下拉选择框等表单选项偏好，默认不处理
+ * @property {number} createdAt - 创建时间戳
+ * @property {number} updatedAt - 最后修改时间戳
+ */
+export interface UserProfile {
+  id: string;
+  profileName: string;
+  name: string;
+  email: string;
+  url: string;
+  customFields: CustomField[];
+  formPreferences: FormPreferences;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * @description: 域名身份规则接口
+ * @interface ProfileRule
+ * @property {string} pattern - 域名规则，支持精确域名和通配符（如 *.example.com）
+ * @property {string} profileId - 命中规则时使用的身份ID
+ */
+export interface ProfileRule {
+  pattern: string;
+  profileId: string;
+}
+
+/**
+ * @description: 身份配置存储结构接口
+ * @interface ProfileStore
+ * @property {UserProfile[]} profiles - 身份列表
+ * @property {string} defaultProfileId - 默认身份ID，没有规则命中时使用
+ * @property {ProfileRule[]} rules - 域名身份规则列表
+ */
+export interface ProfileStore {
+  profiles: UserProfile[];
+  defaultProfileId: string;
+  rules: ProfileRule[];
+}
+
+/**
+ * @description: 身份索引存储结构接口，身份内容单独保存
+ * @interface ProfileIndex
+ * @property {string[]} profileIds - 身份ID列表，顺序即身份的显示顺序
+ * @property {string} defaultProfileId - 默认身份ID
+ * @property {ProfileRule[]} rules - 域名身份规则列表
+ */
+interface ProfileIndex {
+  profileIds: string[];
+  defaultProfileId: string;
+  rules: ProfileRule[];
+}
+
+/**
+ * @description 生成身份唯一标识
+ * @function generateProfileId
+ * @returns {string} 身份ID
+ */
+function generateProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * @description 创建一个新的自定义字段
+ * @function createCustomField
+ * @param {Partial<CustomField>} data 初始数据
+ * @returns {CustomField} 新的自定义字段
+ */
+export function createCustomField(data: Partial<CustomField> = {}): CustomField {
+  return {
+    fieldType: '',
+    label: '',
+    value: '',
+    keywords: [],
+    ...data,
+    id: `field_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  };
+}
+
+/**
+ * @description 创建一个新的身份对象
+ * @function createProfile
+ * @param {string} profileName 身份名称
+ * @param {Partial<UserProfile>} data 初始数据
+ * @returns {UserProfile} 新的身份对象
+ */
+export function createProfile(profileName: string, data: Partial<UserProfile> = {}): UserProfile {
+  const now = Date.now();
+  return {
+    name: '',
+    email: '',
+    url: '',
+    ...data,
+    customFields: (data.customFields || []).map(field => createCustomField(field)),
+    formPreferences: normalizeFormPreferences(data.formPreferences),
+    id: generateProfileId(),
+    profileName: profileName.trim() || DEFAULT_PROFILE_NAME,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * @description 校验身份存储结构是否有效
+ * @function isValidProfileStore
+ * @param {any} data 待校验的数据
+ * @returns {boolean} 是否有效
+ */
+function isValidProfileStore(data: any): boolean {
+  return !!data
+    && Array.isArray(data.profiles)
+    && typeof data.defaultProfileId === 'string'
+    && Array.isArray(data.rules);
+}
+
+/**
+ * @description 校验身份索引是否有效
+ * @function isValidProfileIndex
+ * @param {any} data 待校验的数据
+ * @returns {boolean} 是否有效
+ */
+function isValidProfileIndex(data: any): boolean {
+  return !!data
+    && Array.isArray(data.profileIds)
+    && typeof data.defaultProfileId === 'string'
+    && Array.isArray(data.rules);
+}
+
+/**
+ * @description 获取身份的存储键名
+ * @function getProfileItemKey
+ * @param {string} profileId 身份ID
+ * @returns {string} 存储键名
+ */
+function getProfileItemKey(profileId: string): string {
+  return `${STORAGE_KEYS.PROFILE_ITEM_PREFIX}${profileId}`;
+}
+
+/**
+ * @description 兼容没有自定义字段和表单选项偏好的旧身份数据
+ * @function normalizeProfile
+ * @param {UserProfile} profile 身份
+ * @returns {UserProfile} 补全后的身份
+ */
+function normalizeProfile(profile: UserProfile): UserProfile {
+  return {
+    ...profile,
+    customFields: profile.customFields || [],
+    formPreferences: normalizeFormPreferences(profile.formPreferences)
+  };
+}
+
+/**
+ * @description 解密一项存储数据，无法解密或解析时返回null
+ * @function decryptItem
+ * @template T 数据的类型
+ * @param {string | undefined} encrypted 加密后的数据
+ * @returns {Promise<T | null>} 解密后的数据
+ */
+async function decryptItem<T>(encrypted: string | undefined): Promise<T | null> {
+  if (!encrypted) return null;
+  try {
+    const decrypted = await decryptData(encrypted);
+    return decrypted ? JSON.parse(decrypted) as T : null;
+  } catch (error) {
+    logger.warn('解密身份数据失败', error);
+    return null;
+  }
+}
+
+/**
+ * @description 计算一项数据在同步存储中占用的字节数
+ * @function getSyncItemBytes
+ * @param {string} key 存储键名
+ * @param {string} value 加密后的数据
+ * @returns {number} 字节数
+ */
+function getSyncItemBytes(key: string, value: string): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
+/**
+ * @description 读取身份索引
+ * @function readProfileIndex
+ * @returns {Promise<ProfileIndex | null>} 身份索引，不存在或无效时返回null
+ */
+async function readProfileIndex(): Promise<ProfileIndex | null> {
+  const result = await chromeStorageGet<Record<string, string>>([STORAGE_KEYS.PROFILE_INDEX], 'sync');
+  const index = await decryptItem<ProfileIndex>(result[STORAGE_KEYS.PROFILE_INDEX]);
+  return index && isValidProfileIndex(index) ? index : null;
+}
+
+/**
+ * @description 判断同步存储中是否已有身份索引，只判断是否存在，不解密
+ * @function hasProfileIndex
+ * @returns {Promise<boolean>} 是否存在
+ */
+async function hasProfileIndex(): Promise<boolean> {
+  const result = await chromeStorageGet<Record<string, string>>([STORAGE_KEYS.PROFILE_INDEX], 'sync');
+  return !!result[STORAGE_KEYS.PROFILE_INDEX];
+}
+
+/**
+ * @description 读取按身份分项保存的身份存储结构。索引或任一身份无法读取时抛出错误，
+ * 不能当作没有身份处理，否则之后的保存会覆盖同步尚未完成或暂时无法解密的身份
+ * @function readProfileStore
+ * @returns {Promise<ProfileStore>} 身份存储结构
+ */
+async function readProfileStore(): Promise<ProfileStore> {
+  const index = await readProfileIndex();
+  if (!index) {
+    throw new Error('身份索引无法读取，请稍后重试');
+  }
+
+  const itemResult = await chromeStorageGet<Record<string, string>>(index.profileIds.map(getProfileItemKey), 'sync');
+  const profiles: UserProfile[] = [];
+  for (const profileId of index.profileIds) {
+    const profile = await decryptItem<UserProfile>(itemResult[getProfileItemKey(profileId)]);
+    if (!profile) {
+      logger.warn('身份数据缺失或无法解密', { profileId });
+      throw new Error('部分身份数据尚未同步完成或无法读取，请稍后重试');
+    }
+    profiles.push(normalizeProfile(profile));
+  }
+
+  return { profiles, defaultProfileId: index.defaultProfileId, rules: index.rules };
+}
+
+/**
+ * @description 从旧版本数据生成身份存储结构：优先使用所有身份保存在一项中的数据，
+ * 没有时从 name/email/url 存储生成默认身份
+ * @function readLegacyProfileStore
+ * @returns {Promise<ProfileStore | null>} 身份存储结构，没有旧版本数据时返回null
+ */
+async function readLegacyProfileStore(): Promise<ProfileStore | null> {
+  const store = await getEncryptedStorageData<ProfileStore>({
+    key: STORAGE_KEYS.LEGACY_PROFILES,
+    storageType: 'sync',
+    validator: isValidProfileStore
+  });
+  if (store && store.profiles.length > 0) {
+    return { ...store, profiles: store.profiles.map(normalizeProfile) };
+  }
+
+  const name = await getEncryptedStorageData<string>({ key: STORAGE_KEYS.LEGACY_NAME, storageType: 'sync' }) || '';
+  const email = await getEncryptedStorageData<string>({ key: STORAGE_KEYS.LEGACY_EMAIL, storageType: 'sync' }) || '';
+  const url = await getEncryptedStorageData<string>({ key: STORAGE_KEYS.LEGACY_URL, storageType: 'sync' }) || '';
+  if (!name && !email && !url) {
+    return null;
+  }
+
+  const profile = createProfile(DEFAULT_PROFILE_NAME, { name, email, url });
+  return { profiles: [profile], defaultProfileId: profile.id, rules: [] };
+}
+
+/**
+ * @description 创建只包含一个空白默认身份的存储结构
+ * @function createDefaultProfileStore
+ * @returns {ProfileStore} 身份存储结构
+ */
+function createDefaultProfileStore(): ProfileStore {
+  const profile = createProfile(DEFAULT_PROFILE_NAME);
+  return { profiles: [profile], defaultProfileId: profile.id, rules: [] };
+}
+
+/**
+ * @description 将旧版本的身份数据迁移为按身份分项保存，迁移后删除旧数据。
+ * 只由后台在安装或更新扩展时调用一次，避免多个页面同时迁移生成不同的身份ID；
+ * 已有身份索引或没有旧版本数据时不做任何修改，新设备上尚未同步到的身份不会被覆盖
+ * @function migrateLegacyProfiles
+ * @returns {Promise<void>}
+ */
+export async function migrateLegacyProfiles(): Promise<void> {
+  try {
+    if (await hasProfileIndex()) {
+      return;
+    }
+
+    const store = await readLegacyProfileStore();
+    if (!store) {
+      return;
+    }
+
+    await saveProfileStore(store);
+    await chromeStorageRemove(
+      [STORAGE_KEYS.LEGACY_PROFILES, STORAGE_KEYS.LEGACY_NAME, STORAGE_KEYS.LEGACY_EMAIL, STORAGE_KEYS.LEGACY_URL],
+      'sync'
+    );
+    logger.info('已将旧版本身份数据迁移为按身份分项保存', { profileCount: store.profiles.length });
+  } catch (error) {
+    logger.error('迁移旧版本身份数据失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 获取身份存储结构。还没有身份索引时（首次安装或迁移尚未完成）返回由旧版本数据
+ * 或空白默认身份生成的结构，不写入存储，用户第一次保存时才创建索引
+ * @function getProfileStore
+ * @returns {Promise<ProfileStore>} 身份存储结构
+ */
+export async function getProfileStore(): Promise<ProfileStore> {
+  try {
+    if (await hasProfileIndex()) {
+      return await readProfileStore();
+    }
+    return await readLegacyProfileStore() || createDefaultProfileStore();
+  } catch (error) {
+    logger.error('获取身份配置失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 保存身份存储结构，自动修正失效的默认身份和规则。
+ * 保存前检查每一项是否超过同步存储的单项上限，超过时不保存任何数据并提示是哪个身份过大
+ * @function saveProfileStore
+ * @param {ProfileStore} store 身份存储结构
+ * @returns {Promise<ProfileStore>} 返回修正后实际保存的身份存储结构
+ */
+export async function saveProfileStore(store: ProfileStore): Promise<ProfileStore> {
+  if (store.profiles.length === 0) {
+    throw new Error('至少需要保留一个身份');
+  }
+
+  const profileIds = new Set(store.profiles.map(profile => profile.id));
+  const normalizedStore: ProfileStore = {
+    profiles: store.profiles,
+    defaultProfileId: profileIds.has(store.defaultProfileId) ? store.defaultProfileId : store.profiles[0].id,
+    // 删除身份后，指向该身份的规则一并移除
+    rules: store.rules.filter(rule => profileIds.has(rule.profileId))
+  };
+  const index: ProfileIndex = {
+    profileIds: normalizedStore.profiles.map(profile => profile.id),
+    defaultProfileId: normalizedStore.defaultProfileId,
+    rules: normalizedStore.rules
+  };
+
+  try {
+    const items: Record<string, string> = {
+      [STORAGE_KEYS.PROFILE_INDEX]: await encryptData(JSON.stringify(index))
+    };
+    for (const profile of normalizedStore.profiles) {
+      items[getProfileItemKey(profile.id)] = await encryptData(JSON.stringify(profile));
+    }
+
+    Object.entries(items).forEach(([key, value]) => {
+      const bytes = getSyncItemBytes(key, value);
+      if (bytes <= SYNC_QUOTA_BYTES_PER_ITEM) return;
+
+      const limit = `${(SYNC_QUOTA_BYTES_PER_ITEM / 1024).toFixed(0)} KB`;
+      const size = `${(bytes / 1024).toFixed(1)} KB`;
+      const profile = normalizedStore.profiles.find(p => getProfileItemKey(p.id) === key);
+      throw new Error(profile
+        ? `身份“${profile.profileName}”的数据过大（${size}），超过浏览器同步存储单项 ${limit} 的上限，请减少自定义字段或匹配关键字后再保存`
+        : `域名身份规则过多（${size}），超过浏览器同步存储单项 ${limit} 的上限，请删除部分规则后再保存`);
+    });
+
+    // 先读取旧索引，保存成功后删除已移除身份的数据
+    const previousIndex = await readProfileIndex();
+    await chromeStorageSet(items, 'sync');
+
+    const removedKeys = (previousIndex?.profileIds || [])
+      .filter(profileId => !profileIds.has(profileId))
+      .map(getProfileItemKey);
+    if (removedKeys.length > 0) {
+      await chromeStorageRemove(removedKeys, 'sync');
+    }
+
+    logger.info('身份配置已保存', {
+      profileCount: normalizedStore.profiles.length,
+      ruleCount: normalizedStore.rules.length
+    });
+    return normalizedStore;
+  } catch (error) {
+    logger.error('保存身份配置失败', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 获取身份中每种字段类型对应的填充值，自定义字段与内置字段同名时以内置字段为准
+ * @function getProfileFieldValues
+ * @param {UserProfile} profile 身份
+ * @returns {Record<string, string>} 字段类型到填充值的映射
+ */
+export function getProfileFieldValues(profile: UserProfile): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  (profile.customFields || []).forEach(field => {
+    const fieldType = field.fieldType.trim().toLowerCase();
+    if (fieldType && field.value && !BUILTIN_FIELD_TYPES.includes(fieldType)) {
+      values[fieldType] = field.value;
+    }
+  });
+
+  values.name = profile.name;
+  values.email = profile.email;
+  values.url = profile.url;
+  return values;
+}
+
+/**
+ * @description 获取身份自定义字段中用户额外配置的匹配关键字
+ * @function getProfileFieldKeywords
+ * @param {UserProfile} profile 身份
+ * @returns {Record<string, string[]>} 字段类型到关键字列表的映射
+ */
+export function getProfileFieldKeywords(profile: UserProfile): Record<string, string[]> {
+  const keywords: Record<string, string[]> = {};
+
+  (profile.customFields || []).forEach(field => {
+    const fieldType = field.fieldType.trim().toLowerCase();
+    if (!fieldType) return;
+    // 字段类型本身也作为关键字，便于匹配 name="qq" 这类输入框
+    keywords[fieldType] = [...(keywords[fieldType] || []), fieldType, ...field.keywords];
+  });
+
+  return keywords;
+}
+
+/**
+ * @description 判断域名是否命中身份规则
+ * @function matchProfileRule
+ * @param {string} domain 已转为小写的域名
+ * @param {string} pattern 身份规则
+ * @returns {boolean} 是否命中
+ */
+function matchProfileRule(domain: string, pattern: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  if (normalizedPattern.startsWith('*.')) {
+    return matchWildcardDomain(domain, normalizedPattern);
+  }
+  return domain === normalizedPattern;
+}
+
+/**
+ * @description 在身份存储结构中为域名选择身份。精确规则优先于通配符规则，
+ * 多条通配符规则命中时选择范围最小（最长）的规则，没有规则命中时使用默认身份
+ * @function selectProfileForDomain
+ * @param {ProfileStore} store 身份存储结构
+ * @param {string} domain 域名
+ * @returns {{ profile: UserProfile | null, rule: ProfileRule | null }} 选中的身份和命中的规则
+ */
+export function selectProfileForDomain(
+  store: ProfileStore,
+  domain: string
+): { profile: UserProfile | null, rule: ProfileRule | null } {
+  const normalizedDomain = domain.toLowerCase();
+  const matchedRules = store.rules
+    .filter(rule => matchProfileRule(normalizedDomain, rule.pattern))
+    .sort((a, b) => {
+      const aWildcard = a.pattern.trim().startsWith('*.') ? 1 : 0;
+      const bWildcard = b.pattern.trim().startsWith('*.') ? 1 : 0;
+      if (aWildcard !== bWildcard) {
+        return aWildcard - bWildcard;
+      }
+      return b.pattern.trim().length - a.pattern.trim().length;
+    });
+
+  for (const rule of matchedRules) {
+    const profile = store.profiles.find(p => p.id === rule.profileId);
+    if (profile) {
+      return { profile, rule };
+    }
+  }
+
+  const defaultProfile = store.profiles.find(p => p.id === store.defaultProfileId) || store.profiles[0] || null;
+  return { profile: defaultProfile, rule: null };
+}
+
+/**
+ * @description 根据域名解析本次填充应使用的身份及命中的规则，指定身份ID时（如通过右键菜单手动选择）优先使用指定身份
+ * @function resolveProfileSelection
+ * @param {string} domain 域名
+ * @param {string} [profileId] 指定使用的身份ID
+ * @returns {Promise<{ profile: UserProfile | null, rule: ProfileRule | null }>} 选中的身份和命中的规则，手动指定身份时规则为null
+ */
+export async function resolveProfileSelection(
+  domain: string,
+  profileId?: string
+): Promise<{ profile: UserProfile | null, rule: ProfileRule | null }> {
+  try {
+    const store = await getProfileStore();
+
+    const selectedProfile = profileId ? store.profiles.find(p => p.id === profileId) : undefined;
+    if (selectedProfile) {
+      logger.info('使用手动指定的填充身份', { domain, profileName: selectedProfile.profileName });
+      return { profile: selectedProfile, rule: null };
+    }
+
+    const { profile, rule } = selectProfileForDomain(store, domain);
+
+    logger.info('已解析填充身份', {
+      domain,
+      profileName: profile?.profileName,
+      matchedRule: rule ? rule.pattern : '默认身份'
+    });
+
+    return { profile, rule };
+  } catch (error) {
+    logger.error('解析填充身份失败', error);
+    return { profile: null, rule: null };
+  }
+}
+
+/**
+ * @description 监听身份存储的变化，例如新建、重命名或删除身份
+ * @function onProfileStoreChanged
+ * @param {() => void} callback 身份存储变化时的回调
+ */
+export function onProfileStoreChanged(callback: () => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync' && changes[STORAGE_KEYS.PROFILE_INDEX]) {
+      callback();
+    }
+  });
+}
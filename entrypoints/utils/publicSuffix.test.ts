@@ -0,0 +1,102 @@
+/**
+ * @description  公共后缀列表的单元测试
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/publicSuffix.test
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import {
+  toAsciiHostname,
+  parsePublicSuffixList,
+  getPublicSuffix,
+  isPublicSuffix,
+  getRegistrableDomain
+} from './publicSuffix';
+
+// 随扩展发布的完整列表，用于检查真实规则
+const bundledList = parsePublicSuffixList(
+  readFileSync(new URL('../../public/data/public_suffix_list.dat', import.meta.url), 'utf8')
+);
+
+describe('toAsciiHostname', () => {
+  it('转为小写并去掉末尾的点', () => {
+    expect(toAsciiHostname(' Example.COM. ')).toBe('example.com');
+  });
+
+  it('国际化域名转换为 punycode', () => {
+    expect(toAsciiHostname('例子.中国')).toBe('xn--fsqu00a.xn--fiqs8s');
+  });
+
+  it('空白和无法转换的域名返回 null', () => {
+    expect(toAsciiHostname('  ')).toBeNull();
+    expect(toAsciiHostname('a b.com')).toBeNull();
+  });
+});
+
+describe('parsePublicSuffixList', () => {
+  it('区分普通、通配符和例外规则，忽略注释和行内空白后的内容', () => {
+    const list = parsePublicSuffixList([
+      '// 注释',
+      'co.uk',
+      '*.ck',
+      '!www.ck',
+      'com.cn  // 行尾内容',
+      '公司.cn',
+      ''
+    ].join('\n'));
+    expect([...list.rules]).toEqual(['co.uk', 'com.cn', 'xn--55qx5d.cn']);
+    expect([...list.wildcards]).toEqual(['ck']);
+    expect([...list.exceptions]).toEqual(['www.ck']);
+  });
+});
+
+describe('getPublicSuffix', () => {
+  it('取最长的普通规则', () => {
+    expect(getPublicSuffix('blog.example.co.uk', bundledList)).toBe('co.uk');
+    expect(getPublicSuffix('someone.github.io', bundledList)).toBe('github.io');
+  });
+
+  it('通配符规则把下一级也视为公共后缀', () => {
+    expect(getPublicSuffix('www.example.anything.ck', bundledList)).toBe('anything.ck');
+    expect(getPublicSuffix('shop.foo.kawasaki.jp', bundledList)).toBe('foo.kawasaki.jp');
+  });
+
+  it('例外规则优先于通配符规则', () => {
+    expect(getPublicSuffix('www.ck', bundledList)).toBe('ck');
+    expect(getPublicSuffix('a.www.ck', bundledList)).toBe('ck');
+    expect(getPublicSuffix('city.kawasaki.jp', bundledList)).toBe('kawasaki.jp');
+  });
+
+  it('没有命中任何规则时把最后一级视为公共后缀', () => {
+    expect(getPublicSuffix('example.unknowntld', bundledList)).toBe('unknowntld');
+    expect(getPublicSuffix('example.com', parsePublicSuffixList(''))).toBe('com');
+  });
+});
+
+describe('isPublicSuffix 和 getRegistrableDomain', () => {
+  it('公共后缀本身没有可注册域名', () => {
+    expect(isPublicSuffix('co.uk', bundledList)).toBe(true);
+    expect(isPublicSuffix('anything.ck', bundledList)).toBe(true);
+    expect(getRegistrableDomain('co.uk', bundledList)).toBeNull();
+  });
+
+  it('例外规则命中的域名可以注册', () => {
+    expect(isPublicSuffix('www.ck', bundledList)).toBe(false);
+    expect(getRegistrableDomain('a.www.ck', bundledList)).toBe('www.ck');
+    expect(getRegistrableDomain('www.city.kawasaki.jp', bundledList)).toBe('city.kawasaki.jp');
+  });
+
+  it('可注册域名为公共后缀加上一级', () => {
+    expect(getRegistrableDomain('a.b.example.co.uk', bundledList)).toBe('example.co.uk');
+    expect(getRegistrableDomain('someone.github.io', bundledList)).toBe('someone.github.io');
+    expect(getRegistrableDomain('www.xn--55qx5d.cn', bundledList)).toBe('www.xn--55qx5d.cn');
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @description  公共后缀列表 (Public Suffix List) 与国际化域名规范化
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/publicSuffix
+ *
+ * co.uk、github.io 这类公共后缀下的网站属于不同的所有者，名单规则不应把它们当作一个网站。
+ * 扩展随附完整的公共后缀列表 (public/data/public_suffix_list.dat，由 pnpm update:psl 更新)，离线时直接使用；
+ * 联网后后台每周从 publicsuffix.org 更新一次，下载的列表保存在本地存储中，优先于随附的列表。
+ * 中文等国际化域名统一转换为 punycode (xn--) 形式后再比较
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet } from './storageUtils';
+
+// 存储键名
+const STORAGE_KEYS = {
+  PUBLIC_SUFFIX_LIST: 'easyfill_public_suffix_list',
+  PUBLIC_SUFFIX_LAST_SYNC: 'easyfill_public_suffix_last_sync'
+};
+
+// 公共后缀列表的官方地址
+const PUBLIC_SUFFIX_LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+
+// 随扩展发布的公共后缀列表
+const BUNDLED_LIST_PATH = 'data/public_suffix_list.dat';
+
+// 更新间隔，公共后缀列表变化很少，每周更新一次即可
+const PUBLIC_SUFFIX_SYNC_INTERVAL = 7 * 24 * 60 * 60 * 1000;
+
+// 下载的列表至少包含的规则数，少于该数量视为错误页面，不覆盖已有列表
+const MIN_DOWNLOADED_RULES = 1000;
+
+/**
+ * @description: 解析后的公共后缀列表，所有域名都是 punycode 形式
+ * @interface PublicSuffixList
+ * @property {Set<string>} rules - 普通规则，如 co.uk
+ * @property {Set<string>} wildcards - 通配符规则去掉 *. 后的部分，如 *.ck 记为 ck
+ * @property {Set<string>} exceptions - 例外规则去掉 ! 后的部分，如 !www.ck 记为 www.ck
+ */
+export interface PublicSuffixList {
+  rules: Set<string>;
+  wildcards: Set<string>;
+  exceptions: Set<string>;
+}
+
+// 已加载的公共后缀列表，列表更新后丢弃，下次使用时重新加载
+let loadedList: PublicSuffixList | null = null;
+
+/**
+ * @description 将域名转换为小写的 punycode 形式，已是 ASCII 的域名只转为小写并去掉末尾的点
+ * @function toAsciiHostname
+ * @param {string} hostname 域名，可以是中文等国际化域名
+ * @returns {string | null} punycode 形式的域名，无法转换时返回null
+ */
+export function toAsciiHostname(hostname: string): string | null {
+  const normalized = hostname.trim().toLowerCase().replace(/\.$/, '');
+  if (!normalized) return null;
+  if (/^[a-z0-9.-]+$/.test(normalized)) return normalized;
+
+  try {
+    return new URL(`http://${normalized}/`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @description 解析公共后缀列表文本，每行第一个空白前的内容为规则，忽略 // 开头的注释
+ * @function parsePublicSuffixList
+ * @param {string} text 列表文本
+ * @returns {PublicSuffixList} 解析后的列表
+ */
+export function parsePublicSuffixList(text: string): PublicSuffixList {
+  const list: PublicSuffixList = { rules: new Set(), wildcards: new Set(), exceptions: new Set() };
+
+  text.split('\n').forEach(line => {
+    const rule = line.trim().split(/\s/)[0];
+    if (!rule || rule.startsWith('//')) return;
+
+    if (rule.startsWith('!')) {
+      const domain = toAsciiHostname(rule.slice(1));
+      if (domain) list.exceptions.add(domain);
+    } else if (rule.startsWith('*.')) {
+      const domain = toAsciiHostname(rule.slice(2));
+      if (domain) list.wildcards.add(domain);
+    } else {
+      const domain = toAsciiHostname(rule);
+      if (domain) list.rules.add(domain);
+    }
+  });
+
+  return list;
+}
+
+/**
+ * @description 获取公共后缀列表的规则数
+ * @function countPublicSuffixRules
+ * @param {PublicSuffixList} list 公共后缀列表
+ * @returns {number} 规则数
+ */
+function countPublicSuffixRules(list: PublicSuffixList): number {
+  return list.rules.size + list.wildcards.size + list.exceptions.size;
+}
+
+/**
+ * @description 获取域名的公共后缀。从最长的后缀开始查找，例外规则优先；
+ * 没有命中任何规则时按默认规则把最后一级域名视为公共后缀
+ * @function getPublicSuffix
+ * @param {string} hostname punycode 形式的域名
+ * @param {PublicSuffixList} list 公共后缀列表
+ * @returns {string} 公共后缀
+ */
+export function getPublicSuffix(hostname: string, list: PublicSuffixList): string {
+  const labels = hostname.split('.');
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (list.exceptions.has(candidate)) {
+      return labels.slice(i + 1).join('.');
+    }
+    if (list.rules.has(candidate)) {
+      return candidate;
+    }
+    if (i + 1 < labels.length && list.wildcards.has(labels.slice(i + 1).join('.'))) {
+      return candidate;
+    }
+  }
+  return labels[labels.length - 1];
+}
+
+/**
+ * @description 判断域名本身是否为公共后缀
+ * @function isPublicSuffix
+ * @param {string} hostname punycode 形式的域名
+ * @param {PublicSuffixList} list 公共后缀列表
+ * @returns {boolean} 是否为公共后缀
+ */
+export function isPublicSuffix(hostname: string, list: PublicSuffixList): boolean {
+  return getPublicSuffix(hostname, list) === hostname;
+}
+
+/**
+ * @description 获取域名的可注册域名，即公共后缀加上一级，如 blog.example.co.uk 的 example.co.uk
+ * @function getRegistrableDomain
+ * @param {string} hostname punycode 形式的域名
+ * @param {PublicSuffixList} list 公共后缀列表
+ * @returns {string | null} 可注册域名，域名本身是公共后缀时返回null
+ */
+export function getRegistrableDomain(hostname: string, list: PublicSuffixList): string | null {
+  const suffix = getPublicSuffix(hostname, list);
+  if (suffix === hostname) return null;
+  const labels = hostname.slice(0, -(suffix.length + 1)).split('.');
+  return `${labels[labels.length - 1]}.${suffix}`;
+}
+
+/**
+ * @description 读取随扩展发布的公共后缀列表
+ * @function fetchBundledList
+ * @returns {Promise<string>} 列表文本
+ */
+async function fetchBundledList(): Promise<string> {
+  const response = await fetch(chrome.runtime.getURL(BUNDLED_LIST_PATH));
+  if (!response.ok) {
+    throw new Error(`读取随附的公共后缀列表失败: ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * @description 获取公共后缀列表，优先使用已下载的列表，没有时使用随扩展发布的列表。
+ * 两者都无法读取时返回空列表，此时只按默认规则把最后一级域名视为公共后缀
+ * @function getPublicSuffixList
+ * @returns {Promise<PublicSuffixList>} 公共后缀列表
+ */
+export async function getPublicSuffixList(): Promise<PublicSuffixList> {
+  if (loadedList) return loadedList;
+
+  try {
+    const result = await chromeStorageGet([STORAGE_KEYS.PUBLIC_SUFFIX_LIST]);
+    const text: string = result[STORAGE_KEYS.PUBLIC_SUFFIX_LIST] || await fetchBundledList();
+    loadedList = parsePublicSuffixList(text);
+    logger.info('已加载公共后缀列表', {
+      source: result[STORAGE_KEYS.PUBLIC_SUFFIX_LIST] ? 'downloaded' : 'bundled',
+      ruleCount: countPublicSuffixRules(loadedList)
+    });
+  } catch (error) {
+    logger.error('加载公共后缀列表失败，只使用默认规则', error);
+    loadedList = parsePublicSuffixList('');
+  }
+  return loadedList;
+}
+
+/**
+ * @description 从 publicsuffix.org 更新公共后缀列表。距上次更新不足一周、离线或下载的内容无效时保留现有列表
+ * @function syncPublicSuffixList
+ * @param {boolean} forceSync 是否忽略更新间隔，默认为false
+ * @returns {Promise<boolean>} 是否更新了列表
+ */
+export async function syncPublicSuffixList(forceSync: boolean = false): Promise<boolean> {
+  try {
+    if (!forceSync) {
+      const result = await chromeStorageGet([STORAGE_KEYS.PUBLIC_SUFFIX_LAST_SYNC]);
+      const lastSync: number = result[STORAGE_KEYS.PUBLIC_SUFFIX_LAST_SYNC] || 0;
+      if (Date.now() - lastSync < PUBLIC_SUFFIX_SYNC_INTERVAL) {
+        return false;
+      }
+    }
+
+    if (!navigator.onLine) {
+      logger.warn('无网络连接，继续使用现有的公共后缀列表');
+      return false;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10秒超时
+    let text: string;
+    try {
+      const response = await fetch(PUBLIC_SUFFIX_LIST_URL, { cache: 'no-cache', signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP 错误: ${response.status}`);
+      }
+      text = await response.text();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const list = parsePublicSuffixList(text);
+    const ruleCount = countPublicSuffixRules(list);
+    if (ruleCount < MIN_DOWNLOADED_RULES) {
+      logger.warn('下载的公共后缀列表规则过少，保留现有列表', { ruleCount });
+      return false;
+    }
+
+    await chromeStorageSet({
+      [STORAGE_KEYS.PUBLIC_SUFFIX_LIST]: text,
+      [STORAGE_KEYS.PUBLIC_SUFFIX_LAST_SYNC]: Date.now()
+    });
+    loadedList = null; // 下次使用时从存储中重新加载
+    logger.info('公共后缀列表更新成功', { ruleCount });
+    return true;
+  } catch (error: any) {
+    logger.error('更新公共后缀列表失败', error);
+    throw new Error(error.name === 'AbortError' ? '同步请求超时' : (error.message || '更新公共后缀列表失败'));
+  }
+}
+
+/**
+ * @description 监听公共后缀列表的更新，更新后丢弃已加载的列表并调用回调
+ * @function onPublicSuffixListChanged
+ * @param {() => void} callback 列表更新时的回调
+ */
+export function onPublicSuffixListChanged(callback: () => void): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[STORAGE_KEYS.PUBLIC_SUFFIX_LIST]) {
+      loadedList = null;
+      callback();
+    }
+  });
+}
@@ -0,0 +1,217 @@
+/**
+ * @description  站点填充规则处理，用于管理按域名配置的 CSS 选择器到字段类型的映射
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/recipeService
+ */
+
+import { logger } from './logger';
+import { chromeStorageGet, chromeStorageSet } from './storageUtils';
+import { matchWildcardDomain } from './blacklistService';
+
+// 存储键名常量，与黑名单一样保存在本地存储中
+const STORAGE_KEYS = {
+  OFFICIAL_RECIPES: 'easyfill_official_recipes',
+  USER_RECIPES: 'easyfill_user_recipes'
+};
+
+// 关键字源中存放站点规则的保留键
+export const RECIPES_KEYWORD_KEY = 'recipes';
+
+// Shadow DOM 穿透分隔符，例如 waline-comment >>> input.wl-nick
+const SHADOW_PIERCING_SEPARATOR = '>>>';
+
+/**
+ * @description: 站点规则中的单个字段映射
+ * @interface RecipeField
+ * @property {string} selector - CSS 选择器，支持用 >>> 穿透 Shadow DOM
+ * @property {string} fieldType - 字段类型，例如 name、email、url
+ */
+export interface RecipeField {
+  selector: string;
+  fieldType: string;
+}
+
+/**
+ * @description: 站点填充规则接口
+ * @interface SiteRecipe
+ * @property {string} domain - 域名规则，支持精确域名、通配符（如 *.example.com）和表示所有网站的 *
+ * @property {RecipeField[]} fields - 字段映射列表
+ */
+export interface SiteRecipe {
+  domain: string;
+  fields: RecipeField[];
+}
+
+/**
+ * @description: 站点规则状态接口
+ * @interface RecipeStatus
+ * @property {SiteRecipe[]} officialRecipes - 随关键字源同步的官方规则
+ * @property {SiteRecipe[]} userRecipes - 用户自定义规则
+ */
+export interface RecipeStatus {
+  officialRecipes: SiteRecipe[];
+  userRecipes: SiteRecipe[];
+}
+
+/**
+ * @description 校验站点规则列表格式
+ * @function isValidRecipeList
+ * @param {any} data 待校验的数据
+ * @returns {boolean} 是否有效
+ */
+export function isValidRecipeList(data: any): boolean {
+  return Array.isArray(data) && data.every(recipe =>
+    recipe
+    && typeof recipe.domain === 'string'
+    && Array.isArray(recipe.fields)
+    && recipe.fields.every((field: any) =>
+      field && typeof field.selector === 'string' && typeof field.fieldType === 'string'
+    )
+  );
+}
+
+/**
+ * @description 获取站点规则状态
+ * @function getRecipeStatus
+ * @returns {Promise<RecipeStatus>} 返回一个包含站点规则状态的Promise对象
+ */
+export async function getRecipeStatus(): Promise<RecipeStatus> {
+  try {
+    const result = await chromeStorageGet([
+      STORAGE_KEYS.OFFICIAL_RECIPES,
+      STORAGE_KEYS.USER_RECIPES
+    ]);
+
+    return {
+      officialRecipes: result[STORAGE_KEYS.OFFICIAL_RECIPES] || [],
+      userRecipes: result[STORAGE_KEYS.USER_RECIPES] || []
+    };
+  } catch (error) {
+    logger.error('获取站点规则状态时发生异常', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 保存用户自定义站点规则
+ * @function updateUserRecipes
+ * @param {SiteRecipe[]} recipes 用户自定义规则列表
+ * @returns {Promise<void>} 返回一个Promise对象，表示保存操作完成
+ */
+export async function updateUserRecipes(recipes: SiteRecipe[]): Promise<void> {
+  if (!isValidRecipeList(recipes)) {
+    throw new Error('站点规则格式不正确');
+  }
+
+  try {
+    await chromeStorageSet({ [STORAGE_KEYS.USER_RECIPES]: recipes });
+    logger.info('用户站点规则已更新', { recipeCount: recipes.length });
+  } catch (error) {
+    logger.error('更新用户站点规则时发生异常', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 保存随关键字源同步的官方站点规则
+ * @function saveOfficialRecipes
+ * @param {SiteRecipe[]} recipes 官方规则列表
+ * @returns {Promise<void>} 返回一个Promise对象，表示保存操作完成
+ */
+export async function saveOfficialRecipes(recipes: SiteRecipe[]): Promise<void> {
+  try {
+    await chromeStorageSet({ [STORAGE_KEYS.OFFICIAL_RECIPES]: recipes });
+    logger.info('官方站点规则已更新', { recipeCount: recipes.length });
+  } catch (error) {
+    logger.error('保存官方站点规则时发生异常', error);
+    throw error;
+  }
+}
+
+/**
+ * @description 判断域名是否命中站点规则的域名
+ * @function matchRecipeDomain
+ * @param {string} domain 已转为小写的域名
+ * @param {string} pattern 规则域名
+ * @returns {boolean} 是否命中
+ */
+function matchRecipeDomain(domain: string, pattern: string): boolean {
+  const normalizedPattern = pattern.trim().toLowerCase();
+  if (normalizedPattern === '*') {
+    return true;
+  }
+  if (normalizedPattern.startsWith('*.')) {
+    return matchWildcardDomain(domain, normalizedPattern);
+  }
+  return domain === normalizedPattern;
+}
+
+/**
+ * @description 获取适用于指定域名的站点规则，用户规则排在官方规则之前
+ * @function getRecipesForDomain
+ * @param {string} domain 域名
+ * @returns {Promise<SiteRecipe[]>} 命中的站点规则列表
+ */
+export async function getRecipesForDomain(domain: string): Promise<SiteRecipe[]> {
+  const status = await getRecipeStatus();
+  const normalizedDomain = domain.toLowerCase();
+  return [...status.userRecipes, ...status.officialRecipes]
+    .filter(recipe => matchRecipeDomain(normalizedDomain, recipe.domain));
+}
+
+/**
+ * @description 执行支持 Shadow DOM 穿透的选择器查询。
+ * 选择器按 >>> 分段，每一段在上一段命中元素的 shadowRoot 中继续查询
+ * @function queryShadowPiercing
+ * @param {string} selector 选择器，例如 waline-comment >>> input.wl-nick
+ * @param {Document | ShadowRoot} root 查询起点，默认为 document
+ * @returns {Element[]} 命中的元素列表
+ */
+export function queryShadowPiercing(selector: string, root: Document | ShadowRoot = document): Element[] {
+  const segments = selector.split(SHADOW_PIERCING_SEPARATOR).map(segment => segment.trim()).filter(segment => segment);
+  let roots: Array<Document | ShadowRoot> = [root];
+  let matches: Element[] = [];
+
+  try {
+    segments.forEach((segment, index) => {
+      matches = roots.flatMap(currentRoot => Array.from(currentRoot.querySelectorAll(segment)));
+      if (index < segments.length - 1) {
+        roots = matches
+          .map(element => element.shadowRoot)
+          .filter((shadowRoot): shadowRoot is ShadowRoot => !!shadowRoot);
+      }
+    });
+  } catch (error) {
+    logger.warn('站点规则选择器无效', { selector, error });
+    return [];
+  }
+
+  return matches;
+}
+
+/**
+ * @description 从关键字源数据中拆分出站点规则。
+ * 关键字源中的 recipes 键保存官方站点规则，其余键仍是字段类型到关键字列表的映射
+ * @function splitKeywordSource
+ * @param {Record<string, any>} jsonData 关键字源原始数据
+ * @returns {{ keywordData: Record<string, any>, recipes: SiteRecipe[] | null }} 关键字数据和站点规则，未提供或格式错误时 recipes 为 null
+ */
+export function splitKeywordSource(jsonData: Record<string, any>): { keywordData: Record<string, any>, recipes: SiteRecipe[] | null } {
+  if (!jsonData || typeof jsonData !== 'object' || !(RECIPES_KEYWORD_KEY in jsonData)) {
+    return { keywordData: jsonData, recipes: null };
+  }
+
+  const { [RECIPES_KEYWORD_KEY]: recipes, ...keywordData } = jsonData;
+  if (!isValidRecipeList(recipes)) {
+    logger.warn('关键字源中的站点规则格式不正确，已忽略');
+    return { keywordData, recipes: null };
+  }
+  return { keywordData, recipes };
+}
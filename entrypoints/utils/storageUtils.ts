@@ -3,7 +3,7 @@
  * --------------------------------------------------------------------------
  * @author       游钓四方 <haibao1027@gmail.com>
  * @created      2025-09-16
- * @lastModified 2025-09-16
+ * @lastModified 2026-10-18
  * --------------------------------------------------------------------------
  * @copyright    (c) 2025 游钓四方
  * @license      MPL-2.0
@@ -54,16 +54,16 @@ const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000;
  * @description 将Chrome存储操作包装为Promise
  * @function chromeStorageGet
  * @template T 返回数据的类型
- * @param {string | string[]} keys 要获取的存储键名
- * @param {'local' | 'sync'} storageType 存储类型，默认为'local'
+ * @param {string | string[] | null} keys 要获取的存储键名，为null时获取全部数据
+ * @param {'local' | 'sync' | 'session'} storageType 存储类型，默认为'local'
  * @returns {Promise<T>} 返回包含存储数据的Promise
  */
 export async function chromeStorageGet<T = any>(
-  keys: string | string[],
-  storageType: 'local' | 'sync' = 'local'
+  keys: string | string[] | null,
+  storageType: 'local' | 'sync' | 'session' = 'local'
 ): Promise<T> {
   return new Promise<T>((resolve, reject) => {
-    const storage = storageType === 'sync' ? chrome.storage.sync : chrome.storage.local;
+    const storage = chrome.storage[storageType];
     
     storage.get(keys, (result) => {
       if (chrome.runtime.lastError) {
@@ -84,15 +84,15 @@ export async function chromeStorageGet<T = any>(
  * @description 将Chrome存储设置操作包装为Promise
  * @function chromeStorageSet
  * @param {Record<string, any>} items 要设置的存储项
- * @param {'local' | 'sync'} storageType 存储类型，默认为'local'
+ * @param {'local' | 'sync' | 'session'} storageType 存储类型，默认为'local'
  * @returns {Promise<void>} 返回表示操作完成的Promise
  */
 export async function chromeStorageSet(
   items: Record<string, any>,
-  storageType: 'local' | 'sync' = 'local'
+  storageType: 'local' | 'sync' | 'session' = 'local'
 ): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    const storage = storageType === 'sync' ? chrome.storage.sync : chrome.storage.local;
+    const storage = chrome.storage[storageType];
     
     storage.set(items, () => {
       if (chrome.runtime.lastError) {
@@ -116,15 +116,15 @@ export async function chromeStorageSet(
  * @description 将Chrome存储删除操作包装为Promise
  * @function chromeStorageRemove
  * @param {string | string[]} keys 要删除的存储键名
- * @param {'local' | 'sync'} storageType 存储类型，默认为'local'
+ * @param {'local' | 'sync' | 'session'} storageType 存储类型，默认为'local'
  * @returns {Promise<void>} 返回表示操作完成的Promise
  */
 export async function chromeStorageRemove(
   keys: string | string[],
-  storageType: 'local' | 'sync' = 'local'
+  storageType: 'local' | 'sync' | 'session' = 'local'
 ): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    const storage = storageType === 'sync' ? chrome.storage.sync : chrome.storage.local;
+    const storage = chrome.storage[storageType];
     
     storage.remove(keys, () => {
       if (chrome.runtime.lastError) {
@@ -0,0 +1,174 @@
+/**
+ * @description  网址规则的单元测试
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/urlPatternRules.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseUrlRule,
+  matchUrlRule,
+  splitUrlRules,
+  normalizeUrlRule,
+  toPolicyUrl,
+  getUrlRuleSpecificity
+} from './urlPatternRules';
+
+/**
+ * @description 判断网址是否命中规则
+ * @function matches
+ * @param {string} rule 规则
+ * @param {string} url 网址
+ * @param {(hostname: string) => boolean} [isPublicSuffix] 判断域名是否为公共后缀
+ * @returns {boolean} 是否命中
+ */
+function matches(rule: string, url: string, isPublicSuffix?: (hostname: string) => boolean): boolean {
+  const parsed = parseUrlRule(rule, isPublicSuffix);
+  if (!parsed) throw new Error(`无法解析规则 ${rule}`);
+  return matchUrlRule(parsed, new URL(url));
+}
+
+/**
+ * @description 计算规则的具体程度
+ * @function specificity
+ * @param {string} rule 规则
+ * @returns {number} 具体程度
+ */
+function specificity(rule: string): number {
+  return getUrlRuleSpecificity(parseUrlRule(rule)!);
+}
+
+describe('域名规则', () => {
+  it('不写协议的域名同时匹配子域名，不匹配只是结尾相同的其他域名', () => {
+    expect(matches('example.com', 'https://example.com/')).toBe(true);
+    expect(matches('example.com', 'http://blog.example.com/post')).toBe(true);
+    expect(matches('example.com', 'https://notexample.com/')).toBe(false);
+  });
+
+  it('写出协议时域名只精确匹配，并限制协议', () => {
+    expect(matches('https://example.com', 'https://example.com/')).toBe(true);
+    expect(matches('https://example.com', 'https://blog.example.com/')).toBe(false);
+    expect(matches('https://example.com', 'http://example.com/')).toBe(false);
+  });
+
+  it('公共后缀规则只匹配其本身，显式的 *. 前缀仍包含子域名', () => {
+    const isPublicSuffix = (hostname: string) => hostname === 'github.io';
+    expect(matches('github.io', 'https://someone.github.io/', isPublicSuffix)).toBe(false);
+    expect(matches('github.io', 'https://github.io/', isPublicSuffix)).toBe(true);
+    expect(matches('*.github.io', 'https://someone.github.io/', isPublicSuffix)).toBe(true);
+  });
+
+  it('国际化域名转换为 punycode 后匹配', () => {
+    expect(parseUrlRule('例子.中国')?.host).toBe('xn--fsqu00a.xn--fiqs8s');
+    expect(matches('例子.中国', 'https://www.xn--fsqu00a.xn--fiqs8s/')).toBe(true);
+  });
+
+  it('拒绝无法解析的规则', () => {
+    expect(parseUrlRule('')).toBeNull();
+    expect(parseUrlRule('999.1.1.1')).toBeNull();
+    expect(parseUrlRule('example.com:port')).toBeNull();
+    expect(parseUrlRule('/[unclosed/')).toBeNull();
+  });
+});
+
+describe('匹配模式和路径规则', () => {
+  it('* 协议只匹配 http 和 https', () => {
+    expect(matches('*://*.example.com/*', 'http://a.example.com/x')).toBe(true);
+    expect(matches('*://*.example.com/*', 'https://example.com/')).toBe(true);
+    expect(matches('*://*.example.com/*', 'ftp://example.com/')).toBe(false);
+  });
+
+  it('路径中的 * 匹配任意字符，路径包含查询参数', () => {
+    expect(matches('example.com/admin/*', 'https://example.com/admin/users?page=2')).toBe(true);
+    expect(matches('example.com/admin/*', 'https://example.com/admin')).toBe(false);
+    expect(matches('example.com/login*', 'https://example.com/login?next=/')).toBe(true);
+    expect(matches('example.com/login', 'https://example.com/login?next=/')).toBe(false);
+  });
+
+  it('路径中的正则特殊字符按原样匹配', () => {
+    expect(matches('example.com/a.b/*', 'https://example.com/a.b/c')).toBe(true);
+    expect(matches('example.com/a.b/*', 'https://example.com/axb/c')).toBe(false);
+  });
+
+  it('端口按协议的默认端口比较', () => {
+    expect(matches('https://example.com:443/*', 'https://example.com/')).toBe(true);
+    expect(matches('https://example.com:8080/*', 'https://example.com/')).toBe(false);
+    expect(matches('https://example.com:*/*', 'https://example.com:8443/')).toBe(true);
+  });
+
+  it('<all_urls> 匹配常见协议', () => {
+    expect(matches('<all_urls>', 'https://example.com/')).toBe(true);
+    expect(matches('<all_urls>', 'file:///tmp/a.html')).toBe(true);
+    expect(matches('<all_urls>', 'chrome://extensions/')).toBe(false);
+  });
+
+  it('方括号中的 IPv6 地址按规范形式匹配', () => {
+    expect(parseUrlRule('http://[0:0::1]:8080/*')?.host).toBe('[::1]');
+    expect(matches('http://[0:0::1]:8080/*', 'http://[::1]:8080/admin')).toBe(true);
+    expect(matches('http://[::1]:8080/*', 'http://[::1]:9090/admin')).toBe(false);
+  });
+});
+
+describe('IP 规则', () => {
+  it('不写协议的 IP 网段匹配以 IP 地址访问的网址', () => {
+    expect(matches('10.0.0.0/8', 'http://10.255.0.1:3000/')).toBe(true);
+    expect(matches('10.0.0.0/8', 'http://11.0.0.1/')).toBe(false);
+    expect(matches('fe80::/10', 'http://[fe80::1]/')).toBe(true);
+    expect(matches('192.168.1.10', 'http://192.168.1.10/')).toBe(true);
+  });
+});
+
+describe('正则表达式规则', () => {
+  it('匹配完整网址并保留 i 标志', () => {
+    expect(matches('/^https:\\/\\/example\\.com\\/(login|register)/i', 'https://EXAMPLE.com/Register')).toBe(true);
+    expect(matches('/^https:\\/\\/example\\.com\\/(login|register)/i', 'https://example.com/about')).toBe(false);
+  });
+
+  it('忽略 g 和 y 标志，同一网址的结果不会交替变化', () => {
+    const parsed = parseUrlRule('/example/gy')!;
+    expect(parsed.regex!.flags).toBe('');
+    const url = new URL('https://example.com/');
+    expect([1, 2, 3].map(() => matchUrlRule(parsed, url))).toEqual([true, true, true]);
+  });
+});
+
+describe('splitUrlRules 和 normalizeUrlRule', () => {
+  it('按行和空白拆分，正则表达式中的空格保持不变', () => {
+    expect(splitUrlRules('Example.com  foo.com\n/a b/i\r\n\n')).toEqual(['example.com', 'foo.com', '/a b/i']);
+  });
+
+  it('正则表达式不转为小写', () => {
+    expect(normalizeUrlRule('  /Login/  ')).toBe('/Login/');
+    expect(normalizeUrlRule(' Example.COM ')).toBe('example.com');
+  });
+});
+
+describe('toPolicyUrl', () => {
+  it('只有域名时按 https 首页处理，无法解析时返回 null', () => {
+    expect(toPolicyUrl('example.com')?.href).toBe('https://example.com/');
+    expect(toPolicyUrl('http://example.com/a')?.href).toBe('http://example.com/a');
+    expect(toPolicyUrl('')).toBeNull();
+    expect(toPolicyUrl('http://')).toBeNull();
+  });
+});
+
+describe('getUrlRuleSpecificity', () => {
+  it('域名越长越具体，域名相同时路径越长越具体', () => {
+    expect(specificity('blog.example.com')).toBeGreaterThan(specificity('example.com'));
+    expect(specificity('example.com/admin/*')).toBeGreaterThan(specificity('example.com'));
+    expect(specificity('<all_urls>')).toBe(0);
+  });
+
+  it('单个 IP 地址比任何域名规则都具体，正则表达式最具体', () => {
+    expect(specificity('192.168.1.10')).toBeGreaterThan(specificity('a.very.long.subdomain.example.com'));
+    expect(specificity('10.0.0.0/8')).toBeLessThan(specificity('192.168.1.10'));
+    expect(specificity('/example/')).toBeGreaterThan(specificity('192.168.1.10'));
+  });
+});
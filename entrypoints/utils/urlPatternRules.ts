@@ -0,0 +1,298 @@
+/**
+ * @description  网址规则，解析并匹配黑名单、白名单中的域名、路径、匹配模式和正则表达式规则
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/urlPatternRules
+ *
+ * 支持的规则写法：
+ * - example.com：域名及其所有子域名（旧版本的写法），域名本身是公共后缀（如 github.io）时只匹配其本身
+ * - *.example.com：与上一种相同，显式声明包含子域名
+ * - example.com/admin/*：域名下的路径，* 匹配任意字符，路径包含查询参数
+ * - https://example.com:8080/login*：限定协议和端口，写出协议时域名只精确匹配
+ * - *://*.example.com/*、<all_urls>：与 Chrome 扩展的匹配模式兼容，* 协议只匹配 http 和 https
+ * - /^https:\/\/example\.com\/(login|register)/i：以 / 包围的正则表达式，匹配完整网址，g 和 y 标志会被忽略
+ * - 10.0.0.0/8、192.168.1.10、::1、fe80::/10：IP 地址或 CIDR 网段，匹配以 IP 地址访问的网址（见 ipRules）
+ * - http://[::1]:8080/*：匹配模式中的 IPv6 地址需要写在方括号中
+ *
+ * 中文等国际化域名统一转换为 punycode 形式后匹配，例子.中国 与 xn--fsqu00a.xn--fiqs8s 等价
+ */
+
+import { toAsciiHostname } from './publicSuffix';
+import { isIpRuleLike, parseIpRange, parseIpAddress, matchIpRange, getIpRangeRatio, type IpRange } from './ipRules';
+
+/**
+ * @description: 规则类型
+ * @typedef {string} UrlRuleKind
+ */
+export type UrlRuleKind = 'all' | 'pattern' | 'regex' | 'ip';
+
+/**
+ * @description: 解析后的网址规则
+ * @interface ParsedUrlRule
+ * @property {UrlRuleKind} kind - 规则类型
+ * @property {string} source - 原始规则
+ * @property {string} [scheme] - 协议，* 表示 http 和 https，未写出时不限制协议
+ * @property {string} [host] - punycode 形式的域名，* 表示任意域名，不含通配符前缀
+ * @property {boolean} [wildcardHost] - 域名是否以 *. 开头，即显式声明包含子域名
+ * @property {boolean} [ipHost] - 域名是否为 IP 地址
+ * @property {boolean} [includeSubdomains] - 是否同时匹配子域名
+ * @property {string} [port] - 端口，* 表示任意端口，未写出时不限制端口
+ * @property {RegExp} [path] - 路径（含查询参数）的匹配表达式，未写出时不限制路径
+ * @property {string} [pathLiteral] - 路径中除通配符外的文字，用于比较规则的具体程度
+ * @property {RegExp} [regex] - 正则表达式规则
+ * @property {IpRange} [ipRange] - IP 地址或网段规则
+ */
+export interface ParsedUrlRule {
+  kind: UrlRuleKind;
+  source: string;
+  scheme?: string;
+  host?: string;
+  wildcardHost?: boolean;
+  ipHost?: boolean;
+  includeSubdomains?: boolean;
+  port?: string;
+  path?: RegExp;
+  pathLiteral?: string;
+  regex?: RegExp;
+  ipRange?: IpRange;
+}
+
+// 正则表达式规则：以 / 开头，以 / 加可选的标志结尾
+const REGEX_RULE_PATTERN = /^\/(.+)\/([dgimsuy]*)$/;
+
+// g 和 y 标志会让 test() 从上次匹配的位置继续查找，同一网址的结果交替变化，解析时去掉
+const STATEFUL_REGEX_FLAGS = /[gy]/g;
+
+// 匹配模式中的协议部分
+const SCHEME_PATTERN = /^(\*|[a-z][a-z0-9+.-]*):\/\//;
+
+// 各协议的默认端口
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443',
+  'ws:': '80',
+  'wss:': '443'
+};
+
+// 正则表达式规则的具体程度高于任何匹配模式，视为用户对特定网址的明确设置
+const REGEX_SPECIFICITY = Number.MAX_SAFE_INTEGER;
+
+// IP 地址作为域名时的长度得分，不低于 IPv6 地址的最大长度，单个地址的规则与任何域名规则相比都足够具体
+const IP_HOST_SCORE = 40;
+
+// 域名中允许的字符，包含国际化域名的 Unicode 字符
+const HOST_PATTERN = /^[a-z0-9¡-￿]([a-z0-9¡-￿.。-]*[a-z0-9¡-￿])?$/;
+
+/**
+ * @description 判断规则是否为正则表达式规则
+ * @function isRegexRule
+ * @param {string} rule 规则
+ * @returns {boolean} 是否为正则表达式规则
+ */
+export function isRegexRule(rule: string): boolean {
+  return REGEX_RULE_PATTERN.test(rule.trim());
+}
+
+/**
+ * @description 规范化规则：去除首尾空白，除正则表达式外统一转为小写
+ * @function normalizeUrlRule
+ * @param {string} rule 规则
+ * @returns {string} 规范化后的规则
+ */
+export function normalizeUrlRule(rule: string): string {
+  const trimmed = rule.trim();
+  return isRegexRule(trimmed) ? trimmed : trimmed.toLowerCase();
+}
+
+/**
+ * @description 拆分输入框中的多条规则：按行拆分，不是正则表达式的行再按空白拆分，正则表达式中的空格保持不变
+ * @function splitUrlRules
+ * @param {string} input 输入的文本
+ * @returns {string[]} 规范化后的规则
+ */
+export function splitUrlRules(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .flatMap(line => (isRegexRule(line) ? [line] : line.split(/\s+/)))
+    .map(rule => normalizeUrlRule(rule))
+    .filter(rule => rule);
+}
+
+/**
+ * @description 将路径通配符转换为正则表达式，* 匹配任意字符。规则已转为小写，路径比较不区分大小写
+ * @function globToRegExp
+ * @param {string} glob 路径通配符
+ * @returns {RegExp} 正则表达式
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * @description 解析规则，无法解析时返回null。
+ * 传入公共后缀判断函数时，未写出协议和通配符前缀的公共后缀规则（如 co.uk）不再匹配子域名
+ * @function parseUrlRule
+ * @param {string} rule 规则
+ * @param {(hostname: string) => boolean} [isPublicSuffix] 判断 punycode 形式的域名是否为公共后缀
+ * @returns {ParsedUrlRule | null} 解析后的规则
+ */
+export function parseUrlRule(rule: string, isPublicSuffix?: (hostname: string) => boolean): ParsedUrlRule | null {
+  const source = rule.trim();
+  if (!source) return null;
+
+  if (source === '<all_urls>') {
+    return { kind: 'all', source };
+  }
+
+  const regexMatch = source.match(REGEX_RULE_PATTERN);
+  if (regexMatch) {
+    try {
+      return { kind: 'regex', source, regex: new RegExp(regexMatch[1], regexMatch[2].replace(STATEFUL_REGEX_FLAGS, '')) };
+    } catch {
+      return null;
+    }
+  }
+
+  // 不写协议的 IP 地址和网段，/ 后是前缀长度而不是路径
+  if (isIpRuleLike(source)) {
+    const ipRange = parseIpRange(source);
+    return ipRange ? { kind: 'ip', source, ipRange } : null;
+  }
+
+  let rest = source.toLowerCase();
+  let scheme: string | undefined;
+  const schemeMatch = rest.match(SCHEME_PATTERN);
+  if (schemeMatch) {
+    scheme = schemeMatch[1];
+    rest = rest.slice(schemeMatch[0].length);
+  }
+
+  const slashIndex = rest.indexOf('/');
+  const authority = slashIndex >= 0 ? rest.slice(0, slashIndex) : rest;
+  const pathGlob = slashIndex >= 0 ? rest.slice(slashIndex) : undefined;
+
+  // IPv6 地址写在方括号中，其中的冒号不是端口分隔符
+  const bracketEnd = authority.startsWith('[') ? authority.indexOf(']') : -1;
+  const hostPart = bracketEnd >= 0 ? authority.slice(0, bracketEnd + 1) : authority.split(':')[0];
+  const portPart = authority.slice(hostPart.length);
+  const port = portPart ? portPart.slice(1) : undefined;
+  if (!hostPart || (portPart && (!portPart.startsWith(':') || !/^(\*|\d+)$/.test(port!)))) {
+    return null;
+  }
+
+  const wildcardHost = hostPart.startsWith('*.');
+  let host: string | null = wildcardHost ? hostPart.slice(2) : hostPart;
+  if (host.startsWith('[')) {
+    host = parseIpAddress(host) ? toAsciiHostname(host) : null;
+  } else if (!host || (host !== '*' && !HOST_PATTERN.test(host))) {
+    return null;
+  } else if (/^[\d.]+$/.test(host) && !parseIpAddress(host)) {
+    return null; // 全部由数字组成却不是合法的 IPv4 地址，如 999.1.1.1
+  } else if (host !== '*') {
+    host = toAsciiHostname(host);
+  }
+  if (!host) return null;
+
+  // 未写出协议时沿用旧版本的规则，域名同时匹配子域名，但公共后缀和 IP 地址只匹配其本身
+  const ipHost = host.startsWith('[') || /^[\d.]+$/.test(host);
+  const includeSubdomains = wildcardHost || (!scheme && host !== '*' && !ipHost && !isPublicSuffix?.(host));
+
+  return {
+    kind: 'pattern',
+    source,
+    scheme,
+    host,
+    wildcardHost,
+    ipHost,
+    includeSubdomains,
+    port,
+    path: pathGlob ? globToRegExp(pathGlob) : undefined,
+    pathLiteral: pathGlob ? pathGlob.replace(/\*/g, '') : undefined
+  };
+}
+
+/**
+ * @description 将域名或完整网址转换为 URL 对象，只有域名时按 https 首页处理
+ * @function toPolicyUrl
+ * @param {string} target 域名或完整网址
+ * @returns {URL | null} URL 对象，无法解析时返回null
+ */
+export function toPolicyUrl(target: string): URL | null {
+  const trimmed = target.trim();
+  if (!trimmed) return null;
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}/`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @description 判断网址是否命中规则
+ * @function matchUrlRule
+ * @param {ParsedUrlRule} rule 解析后的规则
+ * @param {URL} url 网址
+ * @returns {boolean} 是否命中
+ */
+export function matchUrlRule(rule: ParsedUrlRule, url: URL): boolean {
+  if (rule.kind === 'all') {
+    return ['http:', 'https:', 'ws:', 'wss:', 'ftp:', 'file:'].includes(url.protocol);
+  }
+  if (rule.kind === 'regex') {
+    return rule.regex!.test(url.href);
+  }
+  if (rule.kind === 'ip') {
+    const address = parseIpAddress(url.hostname);
+    return !!address && matchIpRange(rule.ipRange!, address);
+  }
+
+  if (rule.scheme) {
+    const matchesScheme = rule.scheme === '*'
+      ? url.protocol === 'http:' || url.protocol === 'https:'
+      : url.protocol === `${rule.scheme}:`;
+    if (!matchesScheme) return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  if (rule.host !== '*') {
+    const matchesHost = hostname === rule.host
+      || (rule.includeSubdomains && hostname.endsWith(`.${rule.host}`));
+    if (!matchesHost) return false;
+  }
+
+  if (rule.port && rule.port !== '*') {
+    const port = url.port || DEFAULT_PORTS[url.protocol] || '';
+    if (port !== rule.port) return false;
+  }
+
+  if (rule.path && !rule.path.test(url.pathname + url.search)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * @description 计算规则的具体程度，数值越大范围越小。
+ * 先比较域名的长度，再比较路径中的文字长度；IP 网段按前缀长度折算为域名长度
+ * @function getUrlRuleSpecificity
+ * @param {ParsedUrlRule} rule 解析后的规则
+ * @returns {number} 具体程度
+ */
+export function getUrlRuleSpecificity(rule: ParsedUrlRule): number {
+  if (rule.kind === 'all') return 0;
+  if (rule.kind === 'regex') return REGEX_SPECIFICITY;
+
+  if (rule.kind === 'ip') return Math.round(getIpRangeRatio(rule.ipRange!) * IP_HOST_SCORE) * 1000;
+
+  const hostScore = rule.host === '*' ? 0 : rule.ipHost ? IP_HOST_SCORE : rule.host!.length;
+  const pathScore = Math.min(rule.pathLiteral?.length || 0, 999);
+  return hostScore * 1000 + pathScore;
+}
@@ -0,0 +1,352 @@
+/**
+ * @description  输入框赋值工具，兼容 React、Vue 等框架的受控输入框
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       utils/valueSetter
+ *
+ * React 会在元素实例上记录最近一次的值，直接给 value 赋值会同时更新这份记录，
+ * 之后派发的 input 事件因值未变化被忽略，重新渲染时填充的值就会丢失。
+ * 通过原型上的原生 setter 赋值可以绕过这份记录，让框架感知到变化。
+ * 可编辑区域（contenteditable）由编辑器维护自己的文档模型，需要通过浏览器的编辑命令插入文本；
+ * 复选框和单选框通过模拟点击切换，下拉选择框通过原生 setter 选中选项
+ */
+
+import { logger } from './logger';
+import { isFillableElement, isEditableHost } from './frameUtils';
+import { isChoiceElement, matchesChoiceOption } from './formPreferences';
+
+// 填充后模拟的事件序列，依次对应用户聚焦、按键、输入和离开输入框
+const FILL_EVENT_SEQUENCE = ['focus', 'keydown', 'beforeinput', 'input', 'keyup', 'change', 'blur'];
+
+// 填充后再次校验值的延迟，用于发现框架重新渲染时还原的值
+const VERIFY_DELAY = 100;
+
+type FillableElement = HTMLInputElement | HTMLTextAreaElement;
+
+// 记录 EasyFill 写入每个输入框的值（复选框和单选框记录 checked 或 unchecked），只有值仍等于写入值时才允许再次刷新
+const filledValues = new WeakMap<Element, string>();
+
+/**
+ * @description 使用原型上的原生 setter 设置值。
+ * 从元素自身的原型链查找 setter，同源框架中的元素也能使用其所在 window 的原型
+ * @function setNativeValue
+ * @param {FillableElement} element 输入框元素
+ * @param {string} value 要设置的值
+ */
+function setNativeValue(element: FillableElement | HTMLSelectElement, value: string): void {
+  let prototype = Object.getPrototypeOf(element);
+  while (prototype) {
+    const setter = Object.getOwnPropertyDescriptor(prototype, 'value')?.set;
+    if (setter) {
+      setter.call(element, value);
+      return;
+    }
+    prototype = Object.getPrototypeOf(prototype);
+  }
+  element.value = value;
+}
+
+/**
+ * @description 根据事件类型创建对应的事件对象
+ * @function createFillEvent
+ * @param {string} type 事件类型
+ * @param {string} value 填充的值
+ * @returns {Event} 事件对象
+ */
+function createFillEvent(type: string, value: string): Event {
+  switch (type) {
+    case 'focus':
+    case 'blur':
+      // focus 和 blur 事件原生不冒泡
+      return new FocusEvent(type, { bubbles: false, composed: true });
+    case 'keydown':
+    case 'keyup':
+      return new KeyboardEvent(type, { bubbles: true, cancelable: true, composed: true, key: 'Unidentified' });
+    case 'beforeinput':
+    case 'input':
+      return new InputEvent(type, {
+        bubbles: true,
+        cancelable: type === 'beforeinput',
+        composed: true,
+        inputType: 'insertText',
+        data: value
+      });
+    default:
+      return new Event(type, { bubbles: true });
+  }
+}
+
+/**
+ * @description 获取可编辑区域的文本，去除空白后用于比较。
+ * 编辑器会把换行转换为段落或 <br>，空白字符在比较时没有意义；
+ * 不可编辑的子元素（如 CodeMirror 的占位提示）不计入内容
+ * @function getEditableText
+ * @param {HTMLElement} element 编辑宿主
+ * @returns {string} 去除空白后的文本
+ */
+function getEditableText(element: HTMLElement): string {
+  let text = '';
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => node.nodeType === Node.ELEMENT_NODE && (node as Element).getAttribute('contenteditable') === 'false'
+      ? NodeFilter.FILTER_REJECT
+      : NodeFilter.FILTER_ACCEPT
+  });
+  while (walker.nextNode()) {
+    if (walker.currentNode.nodeType === Node.TEXT_NODE) {
+      text += (walker.currentNode as Text).data;
+    }
+  }
+  return text.replace(/\s+/g, '');
+}
+
+/**
+ * @description 在可编辑区域中插入文本。优先使用 insertText 编辑命令，
+ * 与用户输入一样经过 beforeinput 和 input 事件，Quill、ProseMirror、CodeMirror 等编辑器会同步更新内部模型；
+ * 编辑命令不可用时直接写入文本并派发输入事件
+ * @function insertEditableText
+ * @param {HTMLElement} element 编辑宿主
+ * @param {string} text 要插入的文本
+ * @param {boolean} replace 是否替换全部内容，否则插入到光标处（光标不在编辑区域内时追加到末尾）
+ */
+export function insertEditableText(element: HTMLElement, text: string, replace: boolean = false): void {
+  const doc = element.ownerDocument;
+  const previousFocus = doc.activeElement as HTMLElement | null;
+  element.focus();
+
+  const selection = doc.getSelection();
+  if (selection) {
+    const caretInside = selection.rangeCount > 0 && element.contains(selection.getRangeAt(0).commonAncestorContainer);
+    if (replace || !caretInside) {
+      const range = doc.createRange();
+      range.selectNodeContents(element);
+      if (!replace) {
+        range.collapse(false);
+      }
+      selection.removeAllRanges();
+      selection.addRange(range);
+    }
+  }
+
+  const expected = replace ? text.replace(/\s+/g, '') : '';
+  const inserted = doc.execCommand('insertText', false, text);
+  if (!inserted || (replace && getEditableText(element) !== expected)) {
+    logger.warn('编辑命令未生效，直接写入可编辑区域', { className: element.className });
+    element.dispatchEvent(createFillEvent('beforeinput', text));
+    if (replace) {
+      element.textContent = text;
+    } else {
+      element.append(text);
+    }
+    element.dispatchEvent(createFillEvent('input', text));
+  }
+
+  // 填充不应改变用户的焦点
+  element.blur();
+  if (previousFocus && previousFocus !== element && typeof previousFocus.focus === 'function') {
+    previousFocus.focus();
+  }
+}
+
+/**
+ * @description 填充可编辑区域，替换其中的全部内容
+ * @function fillEditableValue
+ * @param {HTMLElement} element 编辑宿主
+ * @param {string} value 要填充的值
+ * @returns {boolean} 填充后内容是否与预期一致
+ */
+function fillEditableValue(element: HTMLElement, value: string): boolean {
+  insertEditableText(element, value, true);
+
+  const expected = value.replace(/\s+/g, '');
+  if (getEditableText(element) !== expected) {
+    logger.warn('填充后可编辑区域的内容与预期不一致', { className: element.className, expected: value });
+    return false;
+  }
+  filledValues.set(element, expected);
+  return true;
+}
+
+/**
+ * @description 设置复选框、单选框或下拉选择框。复选框的值为 checked 或 unchecked；
+ * 单选框的值为要选中的选项，由调用方保证该单选框就是对应选项；下拉选择框按选项文字或值选中
+ * @function fillChoiceValue
+ * @param {HTMLInputElement | HTMLSelectElement} element 选择类元素
+ * @param {string} value 要设置的值
+ * @returns {boolean} 设置后状态是否与预期一致
+ */
+function fillChoiceValue(element: HTMLInputElement | HTMLSelectElement, value: string): boolean {
+  if (element.tagName === 'SELECT') {
+    const select = element as HTMLSelectElement;
+    const option = Array.from(select.options).find(item => matchesChoiceOption([item.text, item.value], value));
+    if (!option) {
+      logger.warn('下拉选择框中没有匹配的选项', { name: select.name, id: select.id, expected: value });
+      return false;
+    }
+    setNativeValue(select, option.value);
+    select.dispatchEvent(createFillEvent('input', option.value));
+    select.dispatchEvent(createFillEvent('change', option.value));
+    filledValues.set(select, option.value);
+    return select.value === option.value;
+  }
+
+  const input = element as HTMLInputElement;
+  const checked = input.type === 'checkbox' ? value === 'checked' : true;
+  if (input.checked !== checked) {
+    // 模拟点击与用户操作一致，框架的 click 和 change 监听都能感知到变化
+    input.click();
+  }
+  if (input.checked !== checked) {
+    logger.warn('点击后选择框的状态未改变', { name: input.name, id: input.id, expected: checked });
+    return false;
+  }
+  filledValues.set(input, getCheckedState(input));
+  return true;
+}
+
+/**
+ * @description 获取复选框或单选框的选中状态，与 filledValues 中记录的值格式一致
+ * @function getCheckedState
+ * @param {HTMLInputElement} input 复选框或单选框
+ * @returns {string} checked 或 unchecked
+ */
+function getCheckedState(input: HTMLInputElement): string {
+  return input.checked ? 'checked' : 'unchecked';
+}
+
+/**
+ * @description 获取单选框所在分组中当前选中的单选框，分组按表单和 name 划分
+ * @function getCheckedRadio
+ * @param {HTMLInputElement} radio 单选框
+ * @returns {HTMLInputElement | null} 选中的单选框，没有选中项时返回null
+ */
+function getCheckedRadio(radio: HTMLInputElement): HTMLInputElement | null {
+  if (radio.checked || !radio.name) {
+    return radio.checked ? radio : null;
+  }
+  const root = radio.getRootNode() as Document | ShadowRoot;
+  const radios = Array.from(root.querySelectorAll<HTMLInputElement>('input[type="radio"]'));
+  return radios.find(item => item.checked && item.name === radio.name && item.form === radio.form) || null;
+}
+
+/**
+ * @description 判断输入框是否可以被填充，返回不能填充的原因。
+ * 正在编辑的输入框不填充；已有内容时，只有内容仍是 EasyFill 上次写入的值才允许刷新，
+ * 选择类元素同样只在状态仍是 EasyFill 上次设置的状态或页面默认状态时才允许更改
+ * @function getOverwriteSkipReason
+ * @param {Element} element 输入框元素
+ * @returns {string | null} 不能填充的原因，可以填充时返回 null
+ */
+export function getOverwriteSkipReason(element: Element): string | null {
+  const editable = isEditableHost(element);
+  const choice = isChoiceElement(element);
+  if (!editable && !choice && !isFillableElement(element)) {
+    return null;
+  }
+
+  // Shadow Root 和框架文档各自记录焦点元素
+  const root = element.getRootNode() as Document | ShadowRoot;
+  if (root.activeElement === element) {
+    return '输入框正在编辑';
+  }
+
+  if (choice) {
+    // 复选框和单选框：EasyFill 设置过时，状态与当时不同说明用户已更改；
+    // 未设置过时，当前状态与页面默认状态不同说明用户已选择，单选框按所在分组判断
+    if (element.tagName !== 'SELECT') {
+      const input = element as HTMLInputElement;
+      const filled = filledValues.get(input);
+      if (filled !== undefined) {
+        return filled !== getCheckedState(input) ? '选择框已被用户更改' : null;
+      }
+      const selected = input.type === 'radio' ? getCheckedRadio(input) : input;
+      if (selected && selected.checked !== selected.defaultChecked && !filledValues.has(selected)) {
+        return '选择框已有用户选择的选项';
+      }
+      return null;
+    }
+
+    // 下拉选择框已被用户改为默认选项以外的选项时不再更改
+    const select = element as HTMLSelectElement;
+    const selected = select.options[select.selectedIndex];
+    if (selected && !selected.defaultSelected && select.selectedIndex !== 0 && filledValues.get(select) !== select.value) {
+      return '选择框已有用户选择的选项';
+    }
+    return null;
+  }
+
+  const value = editable ? getEditableText(element) : (element as HTMLInputElement).value;
+  if (value && filledValues.get(element) !== value) {
+    return '输入框已有用户输入的内容';
+  }
+
+  return null;
+}
+
+/**
+ * @description 填充输入框或文本域：通过原生 setter 赋值，依次派发指定的事件，并校验值是否保留。
+ * 评论系统适配器按组件监听的事件传入事件序列，其他输入框使用完整的模拟输入序列
+ * @function fillInputValue
+ * @param {FillableElement} element 输入框或文本域
+ * @param {string} value 要填充的值
+ * @param {string[]} events 赋值后依次派发的事件类型，默认为完整的模拟输入序列
+ * @returns {boolean} 事件派发后值是否仍然保留
+ */
+export function fillInputValue(
+  element: FillableElement,
+  value: string,
+  events: string[] = FILL_EVENT_SEQUENCE
+): boolean {
+  const previousValue = element.value;
+  setNativeValue(element, value);
+  events.forEach(type => element.dispatchEvent(createFillEvent(type, value)));
+
+  const applied = element.value === value;
+  if (!applied) {
+    logger.warn('填充后输入框的值未保留', { name: element.name, id: element.id, expected: value, actual: element.value });
+    return false;
+  }
+  filledValues.set(element, value);
+
+  // 部分框架会在下一次渲染时把值还原，此时再补填一次
+  setTimeout(() => {
+    if (element.value === value) return;
+    if (element.value !== previousValue) {
+      // 值已被用户或页面改为其他内容，不再干预
+      return;
+    }
+    logger.warn('输入框的值在重新渲染后被还原，重新填充', { name: element.name, id: element.id });
+    setNativeValue(element, value);
+    element.dispatchEvent(createFillEvent('input', value));
+    element.dispatchEvent(createFillEvent('change', value));
+  }, VERIFY_DELAY);
+
+  return true;
+}
+
+/**
+ * @description 填充输入框：可编辑区域通过编辑命令插入文本，选择类元素模拟点击或选中选项，
+ * 其他输入框通过原生 setter 赋值并触发完整的模拟输入事件序列
+ * @function fillFieldValue
+ * @param {Element} element 输入框元素
+ * @param {string} value 要填充的值
+ * @returns {boolean} 事件派发后值是否仍然保留
+ */
+export function fillFieldValue(element: Element, value: string): boolean {
+  if (isEditableHost(element)) {
+    return fillEditableValue(element, value);
+  }
+  if (isChoiceElement(element)) {
+    return fillChoiceValue(element as HTMLInputElement | HTMLSelectElement, value);
+  }
+  if (!isFillableElement(element)) {
+    logger.warn('不支持填充的元素类型', { tagName: element.tagName });
+    return false;
+  }
+  return fillInputValue(element, value);
+}
@@ -0,0 +1,87 @@
+/**
+ * @description  更新随扩展发布的公共后缀列表 (public/data/public_suffix_list.dat)
+ * --------------------------------------------------------------------------
+ * @author       游钓四方 <haibao1027@gmail.com>
+ * @created      2026-10-18
+ * @lastModified 2026-10-18
+ * --------------------------------------------------------------------------
+ * @copyright    (c) 2025 游钓四方
+ * @license      MPL-2.0
+ * --------------------------------------------------------------------------
+ * @module       scripts/update-public-suffix-list
+ *
+ * 用法：pnpm update:psl
+ * 优先从 publicsuffix.org 下载官方列表并原样保存；
+ * 无法访问时改用开发依赖 psl 中随包发布的完整规则（由官方列表生成，只去掉了注释）。
+ * 规则数少于 MIN_RULES 时视为下载失败，不覆盖现有文件
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = path.join(ROOT, 'public/data/public_suffix_list.dat');
+const PSL_RULES = path.join(ROOT, 'node_modules/psl/data/rules.js');
+const PUBLIC_SUFFIX_LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+
+// 与 utils/publicSuffix 中的 MIN_DOWNLOADED_RULES 保持一致
+const MIN_RULES = 1000;
+
+/**
+ * @description 统计列表文本中的规则数
+ * @param {string} text 列表文本
+ * @returns {number} 规则数
+ */
+function countRules(text) {
+  return text.split('\n').filter(line => line.trim() && !line.trim().startsWith('//')).length;
+}
+
+/**
+ * @description 从 publicsuffix.org 下载官方列表
+ * @returns {Promise<string>} 列表文本
+ */
+async function downloadOfficialList() {
+  const response = await fetch(PUBLIC_SUFFIX_LIST_URL, { signal: AbortSignal.timeout(30000) });
+  if (!response.ok) {
+    throw new Error(`HTTP 错误: ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * @description 读取 psl 包中的规则并转换为公共后缀列表格式
+ * @returns {Promise<string>} 列表文本
+ */
+async function readPslPackageList() {
+  const source = await readFile(PSL_RULES, 'utf8');
+  const rules = JSON.parse(source.replace(/^export default/, '').trim().replace(/;$/, ''));
+  const { version } = JSON.parse(await readFile(path.join(ROOT, 'node_modules/psl/package.json'), 'utf8'));
+  return [
+    `// 由 scripts/update-public-suffix-list.mjs 从 psl@${version} 生成，规则与 ${PUBLIC_SUFFIX_LIST_URL} 相同，注释已去除`,
+    '// This Source Code Form is subject to the terms of the Mozilla Public',
+    '// License, v. 2.0. If a copy of the MPL was not distributed with this',
+    '// file, You can obtain one at https://mozilla.org/MPL/2.0/.',
+    '',
+    ...rules,
+    ''
+  ].join('\n');
+}
+
+let text;
+try {
+  text = await downloadOfficialList();
+  console.log(`已从 ${PUBLIC_SUFFIX_LIST_URL} 下载公共后缀列表`);
+} catch (error) {
+  console.warn(`下载公共后缀列表失败 (${error.message})，改用 psl 包中的规则`);
+  text = await readPslPackageList();
+}
+
+const ruleCount = countRules(text);
+if (ruleCount < MIN_RULES) {
+  console.error(`公共后缀列表只有 ${ruleCount} 条规则，未覆盖 ${path.relative(ROOT, OUTPUT)}`);
+  process.exit(1);
+}
+
+await writeFile(OUTPUT, text);
+console.log(`已写入 ${path.relative(ROOT, OUTPUT)}，共 ${ruleCount} 条规则`);
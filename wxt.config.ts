@@ -16,7 +16,17 @@ export default defineConfig({
     permissions: [
       'storage',
       'activeTab',
+      'contextMenus',
+      'webNavigation',
     ],
+    commands: {
+      'fill-page': {
+        suggested_key: {
+          default: 'Alt+Shift+F'
+        },
+        description: '使用 EasyFill 填充当前页面'
+      }
+    },
     action: {
       default_icon: {
         '16': 'icon/16.png',
@@ -32,7 +42,8 @@ export default defineConfig({
     content_scripts: [
       {
         matches: ['<all_urls>'],
-        js: ['content-scripts/content.js']
+        js: ['content-scripts/content.js'],
+        all_frames: true
       }
     ],
     web_accessible_resources: [